@@ -1,6 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // The agent (/api/agent) generates migrations with drizzle-kit, which bundles esbuild
+  serverExternalPackages: ['drizzle-kit'],
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,37 @@
+#!/usr/bin/env tsx
+
+import { config } from 'dotenv'
+config()
+
+import { sqlite } from '../src/lib/db/index'
+import { detectDrift } from '../src/lib/db/drift'
+
+console.log('🔍 Checking sqlite.db against src/lib/db/schema.ts...\n')
+
+async function checkDrift() {
+  try {
+    const issues = await detectDrift(sqlite)
+
+    if (!issues.length) {
+      console.log('✅ No drift: the database matches the schema')
+      return
+    }
+
+    console.log(`⚠️  Found ${issues.length} mismatch(es):\n`)
+    const tables = [...new Set(issues.map(issue => issue.table))]
+    tables.forEach(table => {
+      console.log(`📋 ${table}:`)
+      issues.filter(issue => issue.table === table).forEach(issue => {
+        console.log(`   ${issue.kind.padEnd(21)} ${issue.message}`)
+      })
+    })
+
+    console.log('\n💡 Tip: Run "npm run db:push" or let the agent recreate the affected tables')
+    process.exitCode = 1
+  } catch (error) {
+    console.error('❌ Drift check failed:', error)
+    process.exitCode = 2
+  }
+}
+
+checkDrift()
@@ -3,569 +3,892 @@
 import { config } from 'dotenv'
 import { Command } from 'commander'
 import inquirer from 'inquirer'
-import { GoogleGenerativeAI } from '@google/generative-ai'
+import readline from 'readline/promises'
 
-// Load environment variables
-config()
+// Load environment variables (quietly, so `--json` output stays clean)
+config({ quiet: true })
 import { db, sqlite } from '../src/lib/db/index'
-import { tracks, recentlyPlayed, madeForYouPlaylists, popularAlbums } from '../src/lib/db/schema'
-import { recentlyPlayedData, madeForYouData, popularAlbumsData } from '../src/components/spotify-main-content'
-import { eq, sql } from 'drizzle-orm'
+import { createProvider, type LLMProvider } from '../src/lib/agent/providers'
+import { DatabaseAgent, TRACK_ROUTES, describeApplyResult, type ProcessOptions } from '../src/lib/agent/database-agent'
+import { tableExists } from '../src/lib/db/ddl'
+import { renderSchemaForPrompt } from '../src/lib/db/introspect'
+import {
+  MIGRATIONS_FOLDER,
+  applyMigrations,
+  createTableMigration,
+  migrationFiles,
+  readDownMigration,
+  readJournal,
+  rollbackLastAgentMigration
+} from '../src/lib/db/migrations'
+import { getTableColumns } from '../src/lib/db/tables'
+import { applyChangeset, formatChangeset, loadChangeset, saveChangeset } from '../src/lib/agent/changeset'
+import { Conversation } from '../src/lib/agent/conversation'
+import { UnitOfWork } from '../src/lib/agent/unit-of-work'
+import { routeCheckOptions, verifyStagedRoutes } from '../src/lib/agent/route-verifier'
+import { EXIT_CODES, buildRunReport, type RunReport } from '../src/lib/agent/run-report'
+import {
+  DEFAULT_ROW_LIMIT,
+  DEFAULT_TIME_LIMIT_MS,
+  QueryRejectedError,
+  askDatabase,
+  formatTable,
+  openReadOnly
+} from '../src/lib/agent/ask'
+import {
+  DEFAULT_SCENARIO_DIR,
+  DEFAULT_SCENARIO_TIMEOUT_MS,
+  findScenarioFiles,
+  formatEvalResult,
+  loadScenario,
+  runIsolated,
+  runScenario,
+  type EvalResult
+} from '../src/lib/agent/eval'
+import {
+  DEFAULT_IMPORT_BATCH_SIZE,
+  IMPORT_FORMATS,
+  ImportError,
+  detectFormat,
+  importActions,
+  importableTables,
+  loadMapping,
+  prepareImport,
+  readSourceRecords,
+  runImport,
+  sourceFields,
+  suggestMapping,
+  trackListField,
+  validateMapping,
+  type ColumnMapping,
+  type ImportFormat
+} from '../src/lib/agent/importer'
+import {
+  findSnapshot,
+  listSnapshots,
+  pruneSnapshots,
+  restoreSnapshot,
+  restoreTargets,
+  snapshotBeforeWrite,
+  snapshotDatabasePath,
+  snapshotSettings,
+  type Snapshot,
+  type SnapshotSettings
+} from '../src/lib/db/snapshots'
+import {
+  changesetActions,
+  checkActions,
+  formatPolicy,
+  formatViolation,
+  loadPolicy,
+  restoreActions,
+  type AgentPolicy,
+  type PolicyAction,
+  type PolicyViolation
+} from '../src/lib/agent/policy'
+import { EXPORT_FORMATS, exportOrder, formatSqlDump, formatTableRows, readTableRows, type ExportFormat } from '../src/lib/agent/exporter'
+import {
+  RUN_LOG_TABLES,
+  carryOverRunLog,
+  formatRun,
+  formatRunList,
+  getRun,
+  listRuns,
+  snapshotRunIds,
+  updateRunOutcome,
+  upgradeRunLogTables,
+  type FileRecord
+} from '../src/lib/agent/run-log'
 import fs from 'fs'
 import path from 'path'
 
-// Initialize Gemini AI
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY
-if (!GEMINI_API_KEY) {
-  console.error('❌ GEMINI_API_KEY environment variable is required')
-  console.log('Please add GEMINI_API_KEY=your_api_key to your .env file')
-  process.exit(1)
+// CLI Setup
+const program = new Command()
+
+program
+  .name('database-agent')
+  .description('AI-powered database agent for Spotify clone')
+  .version('1.0.0')
+  .option('-p, --provider <name>', 'LLM provider: gemini, openai or scripted (default: $AGENT_PROVIDER or gemini)')
+  .option('-m, --model <name>', 'model name passed to the provider')
+  .option('-f, --fixture <file>', 'fixture file for the scripted provider (repeatable)', collect, [])
+  .option('--cache <mode>', 'LLM response cache: off, record, replay or auto (default: $AGENT_CACHE or off)')
+  .option('--cache-dir <dir>', 'where cached responses are stored (default: $AGENT_CACHE_DIR or .agent-cache)')
+  .option('--policy <file>', 'agent policy file (default: $AGENT_POLICY or agent.policy when it exists)')
+  .option('--token-budget <tokens>', 'tokens one run may use before it stops, 0 for no limit (default: $AGENT_TOKEN_BUDGET or 0)', Number)
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value]
+}
+
+// Build the provider lazily so commands that never call the LLM don't need credentials
+function createAgentProvider({ json = false } = {}): LLMProvider {
+  const { provider, model, fixture, cache, cacheDir } = program.opts()
+  try {
+    return createProvider({ provider, model, fixtures: fixture, cache, cacheDir })
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}`)
+    console.error('Please add GEMINI_API_KEY=your_api_key to your .env file, or pick another provider with --provider')
+    if (json) printJson({ status: 'failed', exitCode: EXIT_CODES.provider, errors: [(error as Error).message] })
+    process.exit(EXIT_CODES.provider)
+  }
 }
-const genAI = new GoogleGenerativeAI(GEMINI_API_KEY)
 
-interface AgentContext {
-  query: string
-  steps: string[]
-  currentStep: number
+function createAgent(options: { json?: boolean } = {}): DatabaseAgent {
+  return new DatabaseAgent(createAgentProvider(options))
 }
 
-// Database Agent class:
-class DatabaseAgent {
-  private model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash-lite-preview-06-17' })
-  private context: AgentContext = {
-    query: '',
-    steps: [],
-    currentStep: 0
+// Options every agent run takes from the global flags. Only interactive commands can ask
+// about policy violations; the others refuse the run.
+function runOptions({ interactive = false } = {}): Pick<ProcessOptions, 'tokenBudget' | 'policy' | 'confirmViolations'> {
+  const { tokenBudget } = program.opts()
+  if (tokenBudget !== undefined && !(Number.isInteger(tokenBudget) && tokenBudget >= 0)) {
+    console.error('❌ --token-budget takes a whole number of 0 or more')
+    process.exit(EXIT_CODES.usage)
   }
-  
+  return { tokenBudget, policy: readPolicy(), confirmViolations: interactive ? confirmViolations : undefined }
+}
 
-  // Orchestrate the database agent:
-  async processQuery(userQuery: string): Promise<void> {
-    this.context = {
-      query: userQuery,
-      steps: [],
-      currentStep: 0
-    }
+function readPolicy(): AgentPolicy {
+  try {
+    return loadPolicy(program.opts().policy)
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}`)
+    process.exit(EXIT_CODES.usage)
+  }
+}
+
+async function confirmViolations(violations: PolicyViolation[]): Promise<boolean> {
+  if (!process.stdin.isTTY) return false
+  const { approved } = await inquirer.prompt([
+    { type: 'confirm', name: 'approved', message: `Go ahead anyway, despite ${violations.length} policy violation(s)?`, default: false }
+  ])
+  return approved
+}
 
-    console.log(`\n🤖 Database Agent Processing: "${userQuery}"\n`)
+// The policy check for commands that change things without the agent
+async function checkPolicy(actions: PolicyAction[], { prompt = true } = {}): Promise<boolean> {
+  const policy = readPolicy()
+  console.log(`🛡️  Policy: ${formatPolicy(policy)}`)
+  const violations = checkActions(policy, actions)
+  if (!violations.length) return true
+
+  violations.forEach(violation => console.log(`   ├─ ⚠️  Not allowed by the policy: ${formatViolation(violation)}`))
+  if (policy.onViolation === 'prompt' && prompt && await confirmViolations(violations)) return true
+  console.error('❌ Not allowed by the agent policy; nothing was changed')
+  process.exitCode = EXIT_CODES.policy
+  return false
+}
+
+function printJson(value: unknown, { pretty = true } = {}): void {
+  process.stdout.write(JSON.stringify(value, null, pretty ? 2 : undefined) + '\n')
+}
 
+// Run queries one after another without any prompts. Without `yes` each run only plans.
+// With `json`, progress goes to stderr and stdout carries nothing but the reports.
+async function runQueries(
+  queries: string[],
+  { yes = false, json = false, keepGoing = false, onReport }: { yes?: boolean; json?: boolean; keepGoing?: boolean; onReport?: (report: RunReport) => void }
+): Promise<RunReport[]> {
+  if (json) console.log = console.error
+  const agent = createAgent({ json })
+  const reports: RunReport[] = []
+
+  for (const query of queries) {
+    let report: RunReport
     try {
-      // Step 1: Analyze the query
-      await this.analyzeQuery()
-      
-      // Step 2: Execute database operations
-      await this.executeOperations()
-      
-      // Step 3: Create API routes
-      await this.createAPIRoutes()
-      
-      // Step 4: Update frontend (placeholder for future integration)
-      await this.updateFrontend()
-      
-      console.log('\n✅ Agent completed successfully!')
-      
+      report = buildRunReport(query, await agent.processQuery(query, { ...runOptions(), dryRun: !yes }))
     } catch (error) {
-      console.error('\n❌ Agent failed:', error)
-      throw error
+      report = buildRunReport(query, { error })
     }
+    reports.push(report)
+    onReport?.(report)
+    if (report.exitCode !== EXIT_CODES.ok && !keepGoing) break
   }
+  return reports
+}
 
-  private async analyzeQuery(): Promise<void> {
-    this.logStep('🧠 Analyzing query...')
-    
-    const prompt = `
-    You are a database agent for a Spotify clone app. Your job is to:
-    - Analyze user queries and determine what database features are required.
-    - Create database tables if they do not exist (DDL), including generating and running migration scripts as needed.
-    - Populate tables with data (DML) from available sources.
-    - Implement database operations (CRUD).
-    - Set up API endpoints for the frontend to consume.
-    - Integrate new database features into the UI/UX of the site when possible.
-    - Display your current process and reasoning at each step.
-
-    Query: "${this.context.query}"
-
-    Current database schema:
-    - tracks: id, title, artist, album, albumArt, duration
-    - recently_played: id, trackId, playedAt
-    - made_for_you_playlists: id, title, description, image
-    - popular_albums: id, title, artist, image, duration
-
-    Respond with a JSON object containing:
-    {
-      "operation": "create_table" | "query_data" | "update_data",
-      "tables": ["table_names"],
-      "description": "what this query wants to achieve",
-      "needsAPIRoute": true/false,
-      "needsFrontendUpdate": true/false
-    }
-    `
-
-    const result = await this.model.generateContent(prompt)
-    const response = result.response.text()
-    
+// Back up the database before a command writes to it; AGENT_SNAPSHOTS=off skips this
+async function snapshotBefore(reason: string, prefix = '   ├─ '): Promise<Snapshot | null> {
+  const snapshot = await snapshotBeforeWrite(sqlite, reason)
+  if (snapshot) console.log(`${prefix}Saved database snapshot ${snapshot.id}`)
+  return snapshot
+}
+
+// The first failure decides the exit code
+function exitCodeOf(reports: RunReport[]): number {
+  return reports.find(report => report.exitCode !== EXIT_CODES.ok)?.exitCode ?? EXIT_CODES.ok
+}
+
+program
+  .command('query')
+  .description('Process a natural language database query')
+  .argument('[text]', 'the query (prompted for when omitted)')
+  .option('--dry-run', 'print the SQL, rows and file diffs without applying anything')
+  .option('--save <file>', 'with --dry-run, save the plan to a file for `agent apply`')
+  .option('--tools', 'let the model handle every table with tool calls instead of the built-in intents')
+  .option('--max-steps <count>', 'step budget for the tool loop', Number)
+  .action(async (text: string | undefined, options: { dryRun?: boolean; save?: string; tools?: boolean; maxSteps?: number }) => {
+    const query = text ?? (await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'query',
+        message: 'Enter your database query:',
+        validate: (input: string) => input.length > 0 || 'Please enter a query'
+      }
+    ])).query
+
+    const agent = createAgent()
+    const { changeset, runId } = await agent.processQuery(query, {
+      ...runOptions({ interactive: true }),
+      dryRun: options.dryRun,
+      tools: options.tools,
+      maxSteps: options.maxSteps
+    })
+    if (!options.dryRun) return
+
+    if (options.save) {
+      saveChangeset(changeset, options.save)
+      console.log(`\n💾 Plan saved to ${options.save}. Apply it with: npm run agent apply ${options.save}`)
+      return
+    }
+
+    const { approved } = await inquirer.prompt([
+      { type: 'confirm', name: 'approved', message: 'Apply these changes now?', default: false }
+    ])
+    if (approved) {
+      const applied = await agent.applyChanges(changeset)
+      if (runId) updateRunOutcome(db, runId, { outcome: 'applied', changeset, applied })
+      console.log('\n✅ Agent completed successfully!')
+    }
+  })
+
+program
+  .command('ask')
+  .description('Answer a question about the data with a single read-only SELECT')
+  .argument('<question...>', 'the question, e.g. which artist has the most popular albums')
+  .option('--limit <rows>', 'maximum rows to show', Number, DEFAULT_ROW_LIMIT)
+  .option('--timeout <ms>', 'stop the query after this many milliseconds', Number, DEFAULT_TIME_LIMIT_MS)
+  .action(async (words: string[], options: { limit: number; timeout: number }) => {
+    const provider = createAgentProvider()
+    const question = words.join(' ')
+    console.log(`🔎 Asking: "${question}"`)
+    
+    // A separate read-only handle; nothing here goes through a changeset
+    const reader = openReadOnly(sqlite.name)
     try {
-      const analysis = JSON.parse(response.replace(/```json\n?/g, '').replace(/```\n?/g, ''))
-      console.log(`   📋 Operation: ${analysis.operation}`)
-      console.log(`   🗃️  Tables: ${analysis.tables.join(', ')}`)
-      console.log(`   📝 Description: ${analysis.description}`)
+      const result = await askDatabase(provider, reader, question, {
+        rowLimit: options.limit,
+        timeLimitMs: options.timeout,
+        schema: await renderSchemaForPrompt(reader, { exclude: RUN_LOG_TABLES }),
+        onRepair: (error, attempt) => console.log(`   ├─ 🔁 Attempt ${attempt} rejected (${error}), asking the model to fix it`)
+      })
       
-      this.context.steps.push(`Analyzed query: ${analysis.description}`)
+      console.log('\n📝 Generated SQL:')
+      console.log(result.sql.split('\n').map(line => `   ${line}`).join('\n'))
+      if (result.explanation) console.log(`   └─ 💭 ${result.explanation}`)
+      console.log('')
+      console.log(result.rows.length ? formatTable(result.columns, result.rows) : '(no rows)')
+      console.log(`\n📊 ${result.rows.length} row(s) in ${result.durationMs}ms${result.truncated ? `, stopped at the ${result.rows.length}-row limit` : ''}`)
     } catch (error) {
-      console.log(`   📝 Analysis: Query involves database operations`)
-      this.context.steps.push('Analyzed query for database operations')
+      console.error(`\n❌ ${(error as Error).message}`)
+      if (error instanceof QueryRejectedError && error.sql) {
+        console.log(`   └─ Rejected SQL: ${error.sql}`)
+      }
+      process.exitCode = 1
+    } finally {
+      reader.close()
     }
-  }
+  })
 
-  private async executeOperations(): Promise<void> {
-    this.logStep('🔧 Executing database operations...')
-    
-    const query = this.context.query.toLowerCase()
-    
-    if (query.includes('recently played')) {
-      console.log('   📀 Working with recently played songs...')
-      await this.handleRecentlyPlayed()
-    }
-    
-    if (query.includes('made for you')) {
-      console.log('   🎵 Working with Made for You playlists...')
-      await this.handleMadeForYou()
-    }
-    
-    if (query.includes('popular albums')) {
-      console.log('   💿 Working with Popular Albums...')
-      await this.handlePopularAlbums()
-    }
-    
-    this.context.steps.push('Executed database operations')
-  }
+program
+  .command('run')
+  .description('Run one query without prompts, for scripts')
+  .argument('<query>', 'the natural language query')
+  .option('-y, --yes', 'apply the changes (without it the run only plans)')
+  .option('--json', 'print a machine-readable report on stdout')
+  .action(async (query: string, options: { yes?: boolean; json?: boolean }) => {
+    const [report] = await runQueries([query], options)
+    if (options.json) printJson(report)
+    process.exitCode = report.exitCode
+  })
 
-  private async handleRecentlyPlayed(): Promise<void> {
-    console.log('   ├─ Checking if recently_played table exists...')
-    
-    // Check if table exists and create if it doesn't
-    await this.ensureTableExists('tracks')
-    await this.ensureTableExists('recently_played')
-    
-    // Populate with data if empty
-    await this.populateRecentlyPlayedData()
-    
-    // Verify data exists
-    const recentTracks = await db.select({
-      track: tracks,
-      playedAt: recentlyPlayed.playedAt
+program
+  .command('batch')
+  .description('Run one query per line of a file (blank lines and # comments are skipped)')
+  .argument('<file>', 'file with one query per line')
+  .option('-y, --yes', 'apply each query\'s changes (without it every run only plans)')
+  .option('--json', 'print one JSON report per query (JSON Lines) on stdout')
+  .option('--keep-going', 'continue after a failed query')
+  .action(async (file: string, options: { yes?: boolean; json?: boolean; keepGoing?: boolean }) => {
+    if (!fs.existsSync(file)) {
+      console.error(`❌ Batch file not found: ${file}`)
+      process.exitCode = EXIT_CODES.usage
+      return
+    }
+    const queries = fs.readFileSync(file, 'utf8').split('\n').map(line => line.trim()).filter(line => line && !line.startsWith('#'))
+    const reports = await runQueries(queries, {
+      ...options,
+      onReport: report => options.json && printJson(report, { pretty: false })
     })
-    .from(recentlyPlayed)
-    .innerJoin(tracks, eq(recentlyPlayed.trackId, tracks.id))
-    .limit(5)
     
-    console.log(`   ├─ Found ${recentTracks.length} recently played tracks`)
-    console.log('   └─ Recently played table is ready!')
-  }
+    if (!options.json) {
+      console.log(`\n📋 Batch finished: ${reports.filter(report => report.status !== 'failed').length}/${queries.length} queries succeeded`)
+      reports.filter(report => report.status === 'failed').forEach(report => console.log(`   ├─ ❌ "${report.query}": ${report.errors.join('; ')}`))
+    }
+    process.exitCode = exitCodeOf(reports)
+  })
 
-  private async handleMadeForYou(): Promise<void> {
-    console.log('   ├─ Processing Made for You playlists...')
-    
-    // Ensure table exists and populate with data if empty
-    await this.ensureTableExists('made_for_you_playlists')
-    await this.populateMadeForYouData()
-    
-    // Verify data exists
-    const playlists = await db.select().from(madeForYouPlaylists).limit(5)
-    console.log(`   ├─ Found ${playlists.length} Made for You playlists`)
-    console.log('   └─ Made for You table is ready!')
-  }
+program
+  .command('apply')
+  .description('Apply a plan saved with `query --dry-run --save`')
+  .argument('<file>', 'plan file')
+  .option('-y, --yes', 'skip the confirmation prompt')
+  .action(async (file: string, options: { yes?: boolean }) => {
+    const changeset = loadChangeset(file)
+    console.log(`\n📋 Plan for: "${changeset.query}" (created ${changeset.createdAt})\n`)
+    console.log(formatChangeset(changeset))
+
+    if (!options.yes) {
+      const { approved } = await inquirer.prompt([
+        { type: 'confirm', name: 'approved', message: 'Apply these changes?', default: false }
+      ])
+      if (!approved) return
+    }
+    if (!await checkPolicy(changesetActions(changeset), { prompt: !options.yes })) return
 
-  private async handlePopularAlbums(): Promise<void> {
-    console.log('   ├─ Processing Popular Albums...')
-    
-    // Ensure table exists and populate with data if empty
-    await this.ensureTableExists('popular_albums')
-    await this.populatePopularAlbumsData()
-    
-    // Verify data exists
-    const albums = await db.select().from(popularAlbums).limit(5)
-    console.log(`   ├─ Found ${albums.length} popular albums`)
-    console.log('   └─ Popular albums table is ready!')
-  }
+    try {
+      console.log('\n💾 Applying changes...')
+      await snapshotBefore(`Before applying ${file}`)
+      const applied = await UnitOfWork.run(sqlite, async unit => {
+        const result = await applyChangeset(changeset, { sqlite, db, unit })
+        const { typechecked } = await verifyStagedRoutes(unit, result.filesWritten, routeCheckOptions(TRACK_ROUTES))
+        if (typechecked.length) console.log(`   ├─ Verified ${typechecked.length} route file(s)`)
+        return result
+      })
+      describeApplyResult(applied).forEach(line => console.log(`   ├─ ${line}`))
+      console.log('\n✅ Plan applied successfully!')
+    } catch (error) {
+      console.error(`\n❌ ${(error as Error).message}`)
+      console.log('↩️  Rolled back: database and files are unchanged')
+      process.exitCode = 1
+    }
+  })
 
-  private async createAPIRoutes(): Promise<void> {
-    this.logStep('🛣️  Creating API routes...')
-    
-    const query = this.context.query.toLowerCase()
-    
-    if (query.includes('recently played')) {
-      await this.createRecentlyPlayedRoute()
+program
+  .command('import')
+  .description('Import rows from a CSV, JSON or NDJSON file into a table, upserting by id or a natural key')
+  .argument('<file>', 'CSV with a header row, a JSON array of objects, or NDJSON (one object per line)')
+  .requiredOption('-t, --table <name>', 'table to import into')
+  .option('--format <format>', `${IMPORT_FORMATS.join(', ')} (default: from the file extension)`)
+  .option('--mapping <file>', 'JSON object of column -> source field, for fields named differently from their column')
+  .option('-i, --interactive', 'choose the source field for each column')
+  .option('--save-mapping <file>', 'write the mapping that was used, for --mapping next time')
+  .option('--key <columns>', 'comma-separated columns that identify a row (default: the primary key)')
+  .option('--dry-run', 'validate and report bad rows without writing anything')
+  .option('--skip-invalid', 'import the valid rows even when some rows are bad')
+  .option('--batch-size <rows>', 'rows per INSERT statement', Number, DEFAULT_IMPORT_BATCH_SIZE)
+  .option('--json', 'print a machine-readable summary on stdout')
+  .action(async (file: string, options: {
+    table: string
+    format?: string
+    mapping?: string
+    interactive?: boolean
+    saveMapping?: string
+    key?: string
+    dryRun?: boolean
+    skipInvalid?: boolean
+    batchSize: number
+    json?: boolean
+  }) => {
+    if (options.json) console.log = console.error
+    const { table } = options
+    
+    let format: ImportFormat
+    let mapping: ColumnMapping
+    let plan: ReturnType<typeof prepareImport>
+    try {
+      if (!importableTables().includes(table)) {
+        throw new ImportError(`Cannot import into ${table}; tables: ${importableTables().join(', ')}`)
+      }
+      if (!Number.isInteger(options.batchSize) || options.batchSize < 1) {
+        throw new ImportError('--batch-size takes a whole number of 1 or more')
+      }
+      if (options.format && !(IMPORT_FORMATS as string[]).includes(options.format)) {
+        throw new ImportError(`Unknown format "${options.format}" (expected ${IMPORT_FORMATS.join(', ')})`)
+      }
+      format = (options.format as ImportFormat | undefined) ?? detectFormat(file)
+      const { records, errors } = readSourceRecords(file, format)
+      const fields = sourceFields(records)
+      console.log(`📥 Importing ${file} into ${table} (${format}, ${records.length + errors.length} record(s))`)
+      
+      // Fields named like their column map themselves; a mapping file covers the rest
+      mapping = { ...suggestMapping(table, fields), ...(options.mapping ? loadMapping(options.mapping, table) : {}) }
+      if (options.interactive) {
+        mapping = await promptMapping(table, fields, mapping)
+      }
+      validateMapping(mapping, table)
+      if (options.saveMapping) {
+        fs.writeFileSync(options.saveMapping, JSON.stringify(mapping, null, 2) + '\n')
+        console.log(`   ├─ 💾 Mapping saved to ${options.saveMapping}`)
+      }
+      const tracksField = trackListField(table, fields)
+      const unmappedFields = fields.filter(field => !Object.values(mapping).includes(field) && field !== tracksField)
+      console.log(`   ├─ Mapping: ${Object.entries(mapping).map(([column, field]) => column === field ? column : `${column} <- ${field}`).join(', ') || '(none)'}`)
+      if (tracksField) console.log(`   ├─ Track listings: ${tracksField}`)
+      if (unmappedFields.length) console.log(`   ├─ Ignored fields: ${unmappedFields.join(', ')}`)
+      
+      plan = prepareImport(sqlite, records, { table, mapping, key: options.key?.split(',').map(column => column.trim()).filter(Boolean) })
+      plan.invalid.unshift(...errors)
+      plan.invalid.sort((a, b) => a.line - b.line)
+      plan.total += errors.length
+    } catch (error) {
+      console.error(`❌ ${(error as Error).message}`)
+      if (options.json) printJson({ table, file, status: 'failed', errors: [(error as Error).message] })
+      process.exitCode = EXIT_CODES.usage
+      return
     }
     
-    if (query.includes('made for you')) {
-      await this.createMadeForYouRoute()
+    const updates = plan.rows.filter(row => row.exists).length
+    const summary = {
+      table,
+      file,
+      format,
+      key: plan.key,
+      mapping,
+      total: plan.total,
+      valid: plan.rows.length,
+      invalid: plan.invalid,
+      inserted: plan.rows.length - updates,
+      updated: updates
     }
+    plan.invalid.slice(0, 20).forEach(({ line, errors }) => console.log(`   ├─ ⚠️  Line ${line}: ${errors.join('; ')}`))
+    if (plan.invalid.length > 20) console.log(`   ├─ ⚠️  … ${plan.invalid.length - 20} more bad row(s)`)
     
-    if (query.includes('popular albums')) {
-      await this.createPopularAlbumsRoute()
+    if (options.dryRun) {
+      console.log(`   └─ Dry run: ${plan.rows.length} valid row(s) would be imported (${summary.inserted} new, ${updates} updated), ${plan.invalid.length} bad`)
+      if (options.json) printJson({ ...summary, status: 'planned' })
+      process.exitCode = plan.invalid.length ? EXIT_CODES.failed : EXIT_CODES.ok
+      return
+    }
+    if (plan.invalid.length && !options.skipInvalid) {
+      console.error(`\n❌ ${plan.invalid.length} bad row(s), nothing was imported. Fix them, or pass --skip-invalid to import the ${plan.rows.length} valid row(s)`)
+      if (options.json) printJson({ ...summary, status: 'failed', inserted: 0, updated: 0 })
+      process.exitCode = EXIT_CODES.failed
+      return
     }
     
-    this.context.steps.push('Created API routes')
-  }
-
-  private async createRecentlyPlayedRoute(): Promise<void> {
-    const routePath = 'src/app/api/recently-played'
-    this.ensureDirectoryExists(routePath)
+    if (!await checkPolicy(importActions(sqlite, plan), { prompt: !options.json })) {
+      if (options.json) printJson({ ...summary, status: 'failed', inserted: 0, updated: 0, errors: ['Not allowed by the agent policy'] })
+      return
+    }
     
-    const routeContent = `import { NextResponse } from 'next/server'
-import { db } from '@/lib/db'
-import { tracks, recentlyPlayed } from '@/lib/db/schema'
-import { eq } from 'drizzle-orm'
+    try {
+      const snapshot = await snapshotBefore(`Before importing ${file} into ${table}`)
+      // The missing tables are created in the same unit as the rows, so a failed import leaves
+      // no half-used migration behind
+      const { migration, result } = await UnitOfWork.run(sqlite, async unit => {
+        const tables = plan.linkTable ? [table, plan.linkTable] : [table]
+        const migration = await createTableMigration(sqlite, tables, `create_${table}`, MIGRATIONS_FOLDER, (filePath, content) => unit.writeFileNow(filePath, content))
+        if (migration) applyMigrations(sqlite)
+        return { migration, result: runImport(db, plan, { batchSize: options.batchSize }) }
+      })
+      if (migration) console.log(`   ├─ Created the missing tables (migration ${migration.tag})`)
+      const linked = plan.linkTable ? `, ${result.linked} track(s) listed in ${plan.linkTable}` : ''
+      console.log(`\n✅ Imported ${plan.rows.length} row(s) into ${table}: ${result.inserted} new, ${result.updated} updated${linked}${plan.invalid.length ? ` (${plan.invalid.length} bad row(s) skipped)` : ''}`)
+      if (options.json) printJson({ ...summary, ...result, snapshotId: snapshot?.id ?? null, status: 'applied' })
+    } catch (error) {
+      console.error(`\n❌ ${(error as Error).message}`)
+      console.log('↩️  Rolled back: no rows were imported and no tables or migrations were created')
+      if (options.json) printJson({ ...summary, status: 'failed', inserted: 0, updated: 0, linked: 0, errors: [(error as Error).message] })
+      process.exitCode = EXIT_CODES.applyFailed
+    }
+  })
 
-export async function GET() {
-  try {
-    const recentTracks = await db.select({
-      id: tracks.id,
-      title: tracks.title,
-      artist: tracks.artist,
-      album: tracks.album,
-      image: tracks.albumArt,
-      duration: tracks.duration,
-      playedAt: recentlyPlayed.playedAt
-    })
-    .from(recentlyPlayed)
-    .innerJoin(tracks, eq(recentlyPlayed.trackId, tracks.id))
-    .orderBy(recentlyPlayed.playedAt)
-    .limit(10)
-    
-    return NextResponse.json(recentTracks)
-  } catch (error) {
-    console.error('Error fetching recently played:', error)
-    return NextResponse.json({ error: 'Failed to fetch recently played' }, { status: 500 })
-  }
-}`
+program
+  .command('export')
+  .description('Export tables as JSON, NDJSON or CSV (readable by `agent import`) or as an SQL dump')
+  .argument('[tables...]', 'tables to export (default: every catalog table in the database)')
+  .option('--format <format>', EXPORT_FORMATS.join(', '), 'json')
+  .option('--where <condition>', 'SQL condition to filter the rows of a single table, e.g. "artist = \'Drake\'"')
+  .option('-o, --out <path>', 'output file, or a directory with one file per table (default: stdout)')
+  .action(async (names: string[], options: { format: string; where?: string; out?: string }) => {
+    // Progress goes to stderr, so stdout carries nothing but the export
+    console.log = console.error
+    const format = options.format as ExportFormat
+    const available = importableTables().filter(table => tableExists(sqlite, table))
+    const usage = (message: string) => {
+      console.error(`❌ ${message}`)
+      process.exitCode = EXIT_CODES.usage
+    }
 
-    fs.writeFileSync(path.join(routePath, 'route.ts'), routeContent)
-    console.log('   ├─ Created /api/recently-played route')
-  }
+    if (!EXPORT_FORMATS.includes(format)) return usage(`Unknown format "${options.format}" (expected ${EXPORT_FORMATS.join(', ')})`)
+    const unknown = names.filter(table => !importableTables().includes(table))
+    if (unknown.length) return usage(`Cannot export ${unknown.join(', ')}; tables: ${importableTables().join(', ')}`)
+    const tables = await exportOrder(names.length ? names : available)
+    if (!tables.length) return usage('Nothing to export: no catalog tables exist yet')
+    if (options.where && tables.length !== 1) return usage('--where filters a single table; name exactly one')
 
-  private async createMadeForYouRoute(): Promise<void> {
-    const routePath = 'src/app/api/made-for-you'
-    this.ensureDirectoryExists(routePath)
-    
-    const routeContent = `import { NextResponse } from 'next/server'
-import { db } from '@/lib/db'
-import { madeForYouPlaylists } from '@/lib/db/schema'
+    const perTable = format !== 'sql' && tables.length > 1
+    if (perTable && !options.out) return usage(`Exporting ${tables.length} tables as ${format} writes one file per table; pass --out <dir>`)
 
-export async function GET() {
-  try {
-    const playlists = await db.select({
-      id: madeForYouPlaylists.id,
-      title: madeForYouPlaylists.title,
-      artist: madeForYouPlaylists.description, // Using description as artist field
-      album: madeForYouPlaylists.title, // Using title as album field for consistency
-      image: madeForYouPlaylists.image,
-      duration: 210 // Default duration for playlists
-    }).from(madeForYouPlaylists)
-    
-    return NextResponse.json(playlists)
-  } catch (error) {
-    console.error('Error fetching made for you:', error)
-    return NextResponse.json({ error: 'Failed to fetch made for you playlists' }, { status: 500 })
-  }
-}`
-
-    fs.writeFileSync(path.join(routePath, 'route.ts'), routeContent)
-    console.log('   ├─ Created /api/made-for-you route')
-  }
-
-  private async createPopularAlbumsRoute(): Promise<void> {
-    const routePath = 'src/app/api/popular-albums'
-    this.ensureDirectoryExists(routePath)
-    
-    const routeContent = `import { NextResponse } from 'next/server'
-import { db } from '@/lib/db'
-import { popularAlbums } from '@/lib/db/schema'
+    // The filter runs as written, so it only ever sees a read-only connection
+    const reader = openReadOnly(sqlite.name)
+    try {
+      const exported = tables.map(table => readTableRows(reader, table, { where: options.where }))
+      const write = (file: string | undefined, content: string) => {
+        if (!file) return process.stdout.write(content)
+        fs.mkdirSync(path.dirname(file), { recursive: true })
+        fs.writeFileSync(file, content)
+      }
 
-export async function GET() {
-  try {
-    const albums = await db.select({
-      id: popularAlbums.id,
-      title: popularAlbums.title,
-      artist: popularAlbums.artist,
-      album: popularAlbums.title, // Using title as album field for consistency
-      image: popularAlbums.image,
-      duration: popularAlbums.duration
-    }).from(popularAlbums)
-    
-    return NextResponse.json(albums)
-  } catch (error) {
-    console.error('Error fetching popular albums:', error)
-    return NextResponse.json({ error: 'Failed to fetch popular albums' }, { status: 500 })
-  }
-}`
+      if (format === 'sql') {
+        write(options.out, formatSqlDump(exported))
+      } else if (perTable) {
+        exported.forEach(rows => write(path.join(options.out!, `${rows.table}.${format}`), formatTableRows(format, rows)))
+      } else {
+        write(options.out, formatTableRows(format, exported[0]))
+      }
 
-    fs.writeFileSync(path.join(routePath, 'route.ts'), routeContent)
-    console.log('   ├─ Created /api/popular-albums route')
-  }
+      exported.forEach(({ table, rows }) => console.log(`📤 ${table}: ${rows.length} row(s)`))
+      if (options.out) console.log(`✅ Exported to ${options.out}`)
+    } catch (error) {
+      console.error(`❌ ${(error as Error).message}`)
+      process.exitCode = EXIT_CODES.failed
+    } finally {
+      reader.close()
+    }
+  })
 
-  private async updateFrontend(): Promise<void> {
-    this.logStep('🎨 BONUS: Updating frontend to use database...')
-    
-    // This is the bonus integration step
-    console.log('   ├─ Frontend integration available as bonus feature')
-    console.log('   └─ API routes ready for frontend consumption')
-    
-    this.context.steps.push('Prepared frontend integration (bonus)')
-  }
+async function promptMapping(table: string, fields: string[], suggested: ColumnMapping): Promise<ColumnMapping> {
+  const skip = '(skip)'
+  const answers = await inquirer.prompt(Object.entries(getTableColumns(table)).map(([column, definition]) => ({
+    type: 'list',
+    name: column,
+    message: `Source field for ${column}${definition.notNull && !definition.hasDefault ? ' (required)' : ''}:`,
+    choices: [...fields, skip],
+    default: suggested[column] ?? skip
+  })))
+  return Object.fromEntries(Object.entries(answers as Record<string, string>).filter(([, field]) => field !== skip))
+}
 
-  private ensureDirectoryExists(dirPath: string): void {
-    if (!fs.existsSync(dirPath)) {
-      fs.mkdirSync(dirPath, { recursive: true })
+program
+  .command('migrate:rollback')
+  .description('Revert the last migration created by the agent')
+  .option('-y, --yes', 'skip the confirmation prompt')
+  .action(async (options: { yes?: boolean }) => {
+    const last = readJournal().entries.at(-1)
+    if (!last) {
+      console.log('ℹ️  No migrations found in ' + MIGRATIONS_FOLDER)
+      return
     }
-  }
 
-  private logStep(step: string): void {
-    this.context.currentStep++
-    console.log(`\n${this.context.currentStep}. ${step}`)
-  }
+    if (!options.yes) {
+      const { confirmed } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'confirmed',
+          message: `Roll back ${last.tag}? Tables it created will be dropped with their data.`,
+          default: false
+        }
+      ])
+      if (!confirmed) return
+    }
 
-  // --- Table creation logic ---
-  private async createTableIfNotExists(tableName: string): Promise<void> {
     try {
-      if (tableName === 'tracks') {
-        sqlite.prepare(`
-          CREATE TABLE IF NOT EXISTS tracks (
-            id TEXT PRIMARY KEY,
-            title TEXT NOT NULL,
-            artist TEXT NOT NULL,
-            album TEXT NOT NULL,
-            albumArt TEXT,
-            duration INTEGER,
-            createdAt TIMESTAMP
-          )
-        `).run()
-      } else if (tableName === 'recently_played') {
-        sqlite.prepare(`
-          CREATE TABLE IF NOT EXISTS recently_played (
-            id TEXT PRIMARY KEY,
-            trackId TEXT NOT NULL,
-            playedAt TIMESTAMP NOT NULL
-          )
-        `).run()
-      } else if (tableName === 'made_for_you_playlists') {
-        sqlite.prepare(`
-          CREATE TABLE IF NOT EXISTS made_for_you_playlists (
-            id TEXT PRIMARY KEY,
-            title TEXT NOT NULL,
-            description TEXT,
-            image TEXT,
-            createdAt TIMESTAMP
-          )
-        `).run()
-      } else if (tableName === 'popular_albums') {
-        sqlite.prepare(`
-          CREATE TABLE IF NOT EXISTS popular_albums (
-            id TEXT PRIMARY KEY,
-            title TEXT NOT NULL,
-            artist TEXT NOT NULL,
-            image TEXT,
-            duration INTEGER,
-            createdAt TIMESTAMP
-          )
-        `).run()
-      }
-      console.log(`   ├─ Table ${tableName} created or already exists`)
+      // The down migration drops the tables the migration created
+      const dropped = readDownMigration(last.tag).flatMap(statement => statement.match(/DROP TABLE (?:IF EXISTS )?[`"]?(\w+)/i)?.[1] ?? [])
+      const actions: PolicyAction[] = [
+        ...dropped.map((table): PolicyAction => ({ operation: 'ddl', table })),
+        ...migrationFiles(last).map((filePath): PolicyAction => ({ operation: 'write_file', path: filePath }))
+      ]
+      if (!await checkPolicy(actions, { prompt: !options.yes })) return
+      await snapshotBefore(`Before rolling back ${last.tag}`, '📸 ')
+      const tag = rollbackLastAgentMigration(sqlite)
+      console.log(`✅ Rolled back migration ${tag}`)
     } catch (error) {
-      console.error(`   ├─ ❌ Error creating table ${tableName}:`, error)
-      throw error
+      console.error(`❌ ${(error as Error).message}`)
+      process.exitCode = 1
     }
-  }
+  })
 
-  // Dynamic table management methods to ensure the table exists and has data
-  private async ensureTableExists(tableName: string): Promise<void> {
-    try {
-      console.log(`   ├─ Verifying table ${tableName} exists...`)
-      let hasData = false
-      let tableMissing = false
-      try {
-        if (tableName === 'tracks') {
-          const count = await db.select({ count: sql`count(*)` }).from(tracks)
-          hasData = (count[0]?.count as number) > 0
-        } else if (tableName === 'recently_played') {
-          const count = await db.select({ count: sql`count(*)` }).from(recentlyPlayed)
-          hasData = (count[0]?.count as number) > 0
-        } else if (tableName === 'made_for_you_playlists') {
-          const count = await db.select({ count: sql`count(*)` }).from(madeForYouPlaylists)
-          hasData = (count[0]?.count as number) > 0
-        } else if (tableName === 'popular_albums') {
-          const count = await db.select({ count: sql`count(*)` }).from(popularAlbums)
-          hasData = (count[0]?.count as number) > 0
+program
+  .command('chat')
+  .description('Start a multi-turn session where follow-up queries build on earlier ones')
+  .option('--load <file>', 'resume a conversation saved with /save')
+  .action(async (options: { load?: string }) => {
+    const agent = createAgent()
+    const conversation = options.load ? Conversation.load(options.load) : new Conversation()
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout })
+    
+    console.log('🎵 Database Agent chat 🤖')
+    console.log('   Commands: /history, /reset, /save [file], /exit')
+    if (options.load) {
+      console.log(`   Resumed ${conversation.turns.length} turn(s) from ${options.load}`)
+    }
+    
+    // Lines typed (or piped in) while a query is running are queued, not dropped
+    rl.setPrompt('\n💬 > ')
+    rl.prompt()
+    for await (const input of rl) {
+      const line = input.trim()
+      
+      if (line.startsWith('/')) {
+        const [command, argument] = line.split(/\s+/, 2)
+        if (command === '/exit' || command === '/quit') {
+          break
+        } else if (command === '/history') {
+          console.log(conversation.formatHistory())
+        } else if (command === '/reset') {
+          conversation.reset()
+          console.log('🧹 Conversation cleared (the database and files are left as they are)')
+        } else if (command === '/save') {
+          const file = argument ?? `agent-chat-${new Date().toISOString().replace(/[:.]/g, '-')}.json`
+          conversation.save(file)
+          console.log(`💾 Conversation saved to ${file}. Resume it with: npm run agent chat -- --load ${file}`)
+        } else {
+          console.log(`Unknown command ${command}. Commands: /history, /reset, /save [file], /exit`)
+        }
+      } else if (line) {
+        try {
+          const result = await agent.processQuery(line, { ...runOptions({ interactive: true }), conversation })
+          if (result.undone) conversation.markUndone(result.undone)
+          conversation.record(line, result)
+        } catch (error) {
+          conversation.record(line, { error })
         }
-      } catch (error) {
-        // Table might not exist, so create it
-        tableMissing = true
-        console.log(`   ├─ Table ${tableName} not found, creating...`)
-        await this.createTableIfNotExists(tableName)
-      }
-      if (!tableMissing) {
-        console.log(`   ├─ ✅ Table ${tableName} is ready ${hasData ? '(has data)' : '(empty)'}`)
       }
-    } catch (error) {
-      console.error(`   ├─ ❌ Error checking/creating table ${tableName}:`, error)
-      throw error
+      rl.prompt()
     }
-  }
+    
+    rl.close()
+    console.log('Goodbye! 👋')
+  })
 
-  private async populateRecentlyPlayedData(): Promise<void> {
-    try {
-      // Check if table is empty
-      const existingCount = await db.select({ count: sql`count(*)` }).from(recentlyPlayed)
-      const count = existingCount[0]?.count as number
-      
-      if (count > 0) {
-        console.log(`   ├─ Table already has ${count} records, skipping population`)
-        return
-      }
+program
+  .command('history')
+  .description('List recent agent runs, newest first')
+  .option('-n, --limit <count>', 'number of runs to show', '20')
+  .action((options: { limit: string }) => {
+    if (!tableExists(sqlite, 'agent_runs')) {
+      console.log('ℹ️  No agent runs recorded yet')
+      return
+    }
+    upgradeRunLogTables(sqlite)
+    console.log('🗂️  Agent runs:\n')
+    console.log(formatRunList(listRuns(db, Number(options.limit))))
+  })
 
-      console.log('   ├─ Reading frontend data from spotify-main-content.tsx...')
-      
-      // Use imported data directly from frontend component
-      const frontendData = recentlyPlayedData
-
-      // Insert tracks first
-      for (const track of frontendData) {
-        await db.insert(tracks).values({
-          id: track.id,
-          title: track.title,
-          artist: track.artist,
-          album: track.album,
-          albumArt: track.image,
-          duration: track.duration,
-          createdAt: new Date()
-        }).onConflictDoNothing()
-      }
+program
+  .command('show')
+  .description('Show everything recorded for one agent run')
+  .argument('<runId>', 'run id, or the first characters of it')
+  .action((runId: string) => {
+    const details = findRun(runId)
+    if (!details) {
+      console.error(`❌ No agent run found with id ${runId}`)
+      process.exitCode = 1
+      return
+    }
+    console.log(formatRun(details))
+  })
 
-      // Insert recently played entries
-      for (let i = 0; i < frontendData.length; i++) {
-        await db.insert(recentlyPlayed).values({
-          id: `recent-${i + 1}`,
-          trackId: frontendData[i].id,
-          playedAt: new Date(Date.now() - (i * 60 * 60 * 1000)) // Stagger by hours
-        }).onConflictDoNothing()
-      }
+function findRun(runId: string) {
+  if (!tableExists(sqlite, 'agent_runs')) return null
+  upgradeRunLogTables(sqlite)
+  return getRun(db, runId)
+}
 
-      console.log(`   ├─ ✅ Recently played data populated with ${frontendData.length} tracks from frontend`)
-    } catch (error) {
-      console.error('   ├─ ❌ Error populating recently played data:', error)
-      throw error
-    }
+// Bad retention settings in the environment are a usage error, like a bad provider
+function readSnapshotSettings(): SnapshotSettings {
+  try {
+    return snapshotSettings()
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}`)
+    process.exit(EXIT_CODES.usage)
   }
+}
 
-  private async populateMadeForYouData(): Promise<void> {
-    try {
-      const existingCount = await db.select({ count: sql`count(*)` }).from(madeForYouPlaylists)
-      const count = existingCount[0]?.count as number
-      
-      if (count > 0) {
-        console.log(`   ├─ Table already has ${count} records, skipping population`)
-        return
-      }
+const snapshots = program
+  .command('snapshots')
+  .description('List, restore and prune the database snapshots taken before the agent writes')
+
+snapshots
+  .command('list')
+  .description('List the snapshots, newest first')
+  .action(() => {
+    const { dir } = readSnapshotSettings()
+    const list = listSnapshots(dir)
+    if (!list.length) {
+      console.log(`ℹ️  No snapshots in ${dir}/`)
+      return
+    }
+    let runs = new Map<string, string>()
+    if (tableExists(sqlite, 'agent_runs')) {
+      upgradeRunLogTables(sqlite)
+      runs = snapshotRunIds(db)
+    }
+    console.log(`📸 Snapshots in ${dir}/:\n`)
+    list.forEach(snapshot => {
+      const run = runs.get(snapshot.id)
+      const size = `${(snapshot.bytes / 1024).toFixed(1)} KB`.padStart(10)
+      console.log(`   ${snapshot.id}  ${snapshot.createdAt}  ${size}  ${snapshot.reason}${run ? ` (run ${run.slice(0, 8)})` : ''}`)
+    })
+  })
 
-      console.log('   ├─ Reading Made for You data from frontend...')
-      
-      // Use imported data directly from frontend component
-      const frontendData = madeForYouData
-
-      for (const playlist of frontendData) {
-        await db.insert(madeForYouPlaylists).values({
-          id: playlist.id,
-          title: playlist.title,
-          description: playlist.artist, // Using artist field as description from frontend
-          image: playlist.image,
-          createdAt: new Date()
-        }).onConflictDoNothing()
-      }
+snapshots
+  .command('restore')
+  .description('Put sqlite.db and the migrations back as they were when a snapshot was taken')
+  .argument('[id]', 'snapshot id, or the first characters of it')
+  .option('--run <runId>', 'restore the snapshot taken before this agent run, reverting it and every run after it')
+  .option('-y, --yes', 'skip the confirmation prompt')
+  .action(async (id: string | undefined, options: { run?: string; yes?: boolean }) => {
+    const settings = readSnapshotSettings()
+    const usage = (message: string) => {
+      console.error(`❌ ${message}`)
+      process.exitCode = EXIT_CODES.usage
+    }
 
-      console.log(`   ├─ ✅ Made for You data populated with ${frontendData.length} playlists from frontend`)
-    } catch (error) {
-      console.error('   ├─ ❌ Error populating Made for You data:', error)
-      throw error
+    if (options.run) {
+      const details = findRun(options.run)
+      if (!details) return usage(`No agent run found with id ${options.run}`)
+      if (!details.run.snapshotId) return usage(`Run ${options.run} has no snapshot: it did not apply anything, or snapshots were off`)
+      id = details.run.snapshotId
     }
-  }
+    if (!id) return usage('Pass a snapshot id (see agent snapshots list), or --run <runId>')
+    const snapshot = findSnapshot(id, settings.dir)
+    if (!snapshot) return usage(`No snapshot ${id} in ${settings.dir}/ (it may have been pruned)`)
 
-  private async populatePopularAlbumsData(): Promise<void> {
-    try {
-      const existingCount = await db.select({ count: sql`count(*)` }).from(popularAlbums)
-      const count = existingCount[0]?.count as number
-      
-      if (count > 0) {
-        console.log(`   ├─ Table already has ${count} records, skipping population`)
-        return
-      }
+    if (!options.yes) {
+      const { confirmed } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'confirmed',
+          message: `Restore ${snapshot.id} (${snapshot.reason}, ${snapshot.createdAt})? Database changes made since then are reverted.`,
+          default: false
+        }
+      ])
+      if (!confirmed) return
+    }
+    // The run log is carried over rather than restored, so it isn't checked
+    const targets = restoreTargets(sqlite, snapshot, settings.dir)
+    const tables = targets.tables.filter(table => !RUN_LOG_TABLES.includes(table))
+    if (!await checkPolicy(restoreActions({ tables, files: targets.files }), { prompt: !options.yes })) return
 
-      console.log('   ├─ Reading Popular Albums data from frontend...')
-      
-      // Use imported data directly from frontend component
-      const frontendData = popularAlbumsData
-
-      for (const album of frontendData) {
-        await db.insert(popularAlbums).values({
-          id: album.id,
-          title: album.title,
-          artist: album.artist,
-          image: album.image,
-          duration: album.duration,
-          createdAt: new Date()
-        }).onConflictDoNothing()
+    try {
+      console.log(`\n⏪ Restoring snapshot ${snapshot.id}...`)
+      const { previous } = await restoreSnapshot(sqlite, snapshot.id, settings)
+      console.log(`   ├─ Saved the current state as snapshot ${previous.id}`)
+      console.log(`   ├─ Restored sqlite.db and ${MIGRATIONS_FOLDER}`)
+
+      const reverted = await carryOverRunLog(sqlite, snapshotDatabasePath(previous, settings.dir), snapshot)
+      const files = new Set<string>()
+      for (const runId of reverted) {
+        const { run } = getRun(db, runId)!
+        console.log(`   ├─ Marked run ${runId.slice(0, 8)} as undone: "${run.query}"`)
+        for (const file of run.files as FileRecord[]) files.add(file.path)
       }
-
-      console.log(`   ├─ ✅ Popular Albums data populated with ${frontendData.length} albums from frontend`)
+      if (files.size) console.log(`   ├─ ⚠️  Files written by those runs are left as they are: ${[...files].join(', ')}`)
+      console.log(`   └─ Undo this restore with: npm run agent -- snapshots restore ${previous.id}`)
+      console.log(`\n✅ Restored snapshot ${snapshot.id}`)
     } catch (error) {
-      console.error('   ├─ ❌ Error populating Popular Albums data:', error)
-      throw error
+      console.error(`❌ ${(error as Error).message}`)
+      process.exitCode = EXIT_CODES.failed
     }
-  }
-}
-
-// CLI Setup
-const program = new Command()
-
-program
-  .name('database-agent')
-  .description('AI-powered database agent for Spotify clone')
-  .version('1.0.0')
+  })
 
-program
-  .command('query')
-  .description('Process a natural language database query')
-  .action(async () => {
-    const answers = await inquirer.prompt([
-      {
-        type: 'input',
-        name: 'query',
-        message: 'Enter your database query:',
-        validate: (input: string) => input.length > 0 || 'Please enter a query'
-      }
-    ])
+snapshots
+  .command('prune')
+  .description('Delete the snapshots beyond the retention settings')
+  .option('--keep <count>', 'newest snapshots to keep, 0 for no limit (default: $AGENT_SNAPSHOT_KEEP or 20)', Number)
+  .option('--max-age <days>', 'delete snapshots older than this, 0 for no limit (default: $AGENT_SNAPSHOT_MAX_AGE_DAYS or 0)', Number)
+  .action((options: { keep?: number; maxAge?: number }) => {
+    const settings = readSnapshotSettings()
+    const keep = options.keep ?? settings.keep
+    const maxAgeDays = options.maxAge ?? settings.maxAgeDays
+    if (![keep, maxAgeDays].every(value => Number.isInteger(value) && value >= 0)) {
+      console.error('❌ --keep and --max-age take a whole number of 0 or more')
+      process.exitCode = EXIT_CODES.usage
+      return
+    }
 
-    const agent = new DatabaseAgent()
-    await agent.processQuery(answers.query)
+    const removed = pruneSnapshots({ dir: settings.dir, keep, maxAgeDays })
+    removed.forEach(snapshot => console.log(`   ├─ Deleted ${snapshot.id}  ${snapshot.reason}`))
+    console.log(`✅ Deleted ${removed.length} snapshot(s), ${listSnapshots(settings.dir).length} kept in ${settings.dir}/`)
   })
 
+const TEST_QUERIES = [
+  'Can you store the recently played songs in a table',
+  "Can you store the 'Made for you' and 'Popular albums' in a table"
+]
+
 program
   .command('test')
   .description('Run the test queries from the assignment')
-  .action(async () => {
-    const agent = new DatabaseAgent()
-    
-    console.log('🧪 Running Test Queries...\n')
-    
-    // Test query 1
-    console.log('=' .repeat(60))
-    await agent.processQuery("Can you store the recently played songs in a table")
+  .option('--json', 'print one JSON report per query (JSON Lines) on stdout')
+  .action(async (options: { json?: boolean }) => {
+    if (!options.json) console.log('🧪 Running Test Queries...\n')
+    
+    const reports = await runQueries(TEST_QUERIES, {
+      yes: true,
+      json: options.json,
+      onReport: report => options.json ? printJson(report, { pretty: false }) : console.log('\n' + '='.repeat(60))
+    })
     
-    console.log('\n' + '='.repeat(60))
-    // Test query 2  
-    await agent.processQuery("Can you store the 'Made for you' and 'Popular albums' in a table")
+    if (!options.json && exitCodeOf(reports) === EXIT_CODES.ok) {
+      console.log('\n🎉 All test queries completed!')
+    }
+    process.exitCode = exitCodeOf(reports)
+  })
+
+program
+  .command('eval')
+  .description('Run golden scenarios offline, each against a fresh temp database and output directory')
+  .argument('[scenarios...]', 'scenario files or directories', [DEFAULT_SCENARIO_DIR])
+  .option('--json', 'print one JSON result per scenario (JSON Lines) on stdout')
+  .option('--keep', 'keep every scenario\'s temp directory, not just those of failed scenarios')
+  .option('--timeout <ms>', 'give up on a scenario after this many milliseconds', Number, DEFAULT_SCENARIO_TIMEOUT_MS)
+  .action((targets: string[], options: { json?: boolean; keep?: boolean; timeout: number }) => {
+    let files: string[]
+    try {
+      files = findScenarioFiles(targets)
+    } catch (error) {
+      console.error(`❌ ${(error as Error).message}`)
+      process.exitCode = EXIT_CODES.usage
+      return
+    }
+    if (!options.json) console.log(`🧪 Running ${files.length} eval scenario(s)...\n`)
+    
+    // Each scenario runs this script again in its own working directory
+    const command = [...process.execArgv, process.argv[1], 'eval:scenario']
+    const results = files.map(file => {
+      const result = runIsolated(file, command, { keep: options.keep, timeoutMs: options.timeout })
+      if (options.json) printJson(result, { pretty: false })
+      else console.log(formatEvalResult(result))
+      return result
+    })
     
-    console.log('\n🎉 All test queries completed!')
+    const passed = results.filter(result => result.passed).length
+    if (!options.json) console.log(`\n📋 ${passed}/${results.length} scenario(s) passed`)
+    process.exitCode = passed === results.length ? EXIT_CODES.ok : EXIT_CODES.failed
+  })
+
+program
+  .command('eval:scenario', { hidden: true })
+  .description('Run a single scenario in the current directory (used by `eval`)')
+  .argument('<file>', 'scenario file')
+  .action(async (file: string) => {
+    console.log = console.error
+    const startedAt = Date.now()
+    let result: EvalResult
+    try {
+      const scenario = loadScenario(file)
+      const { report, checks } = await runScenario(scenario, sqlite)
+      result = { scenario: scenario.name, file, passed: checks.every(check => check.passed), checks, report, durationMs: Date.now() - startedAt }
+    } catch (error) {
+      result = { scenario: file, file, passed: false, checks: [], error: (error as Error).message, durationMs: Date.now() - startedAt }
+    }
+    printJson(result, { pretty: false })
   })
 
 // Handle direct execution
@@ -581,6 +904,7 @@ if (process.argv.length <= 2) {
         message: 'What would you like to do?',
         choices: [
           { name: '📝 Enter custom query', value: 'query' },
+          { name: '💬 Start a chat session', value: 'chat' },
           { name: '🧪 Run test queries', value: 'test' },
           { name: '❌ Exit', value: 'exit' }
         ]
@@ -602,10 +926,10 @@ if (process.argv.length <= 2) {
         }
       ])
 
-      const agent = new DatabaseAgent()
-      await agent.processQuery(answers.query)
-    } else if (action === 'test') {
-      program.parse(['node', 'database-agent.ts', 'test'])
+      const agent = createAgent()
+      await agent.processQuery(answers.query, runOptions({ interactive: true }))
+    } else if (action === 'chat' || action === 'test') {
+      program.parse(['node', 'database-agent.ts', action])
       return
     }
   }
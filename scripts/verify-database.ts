@@ -3,60 +3,50 @@
 import { config } from 'dotenv'
 config()
 
-import { db } from '../src/lib/db/index'
-import { tracks, recentlyPlayed, madeForYouPlaylists, popularAlbums } from '../src/lib/db/schema'
-import { sql } from 'drizzle-orm'
+import { sqlite } from '../src/lib/db/index'
+import { introspectSchema } from '../src/lib/db/introspect'
 
 console.log('🔍 Verifying Database Contents...\n')
 
+function preview(value: unknown): string {
+  const text = String(value).replace(/\s+/g, ' ').trim()
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text
+}
+
 async function verifyDatabase() {
   try {
+    const tables = introspectSchema(sqlite)
+    if (!tables.length) {
+      throw new Error('The database has no tables')
+    }
+
     // Count records in each table
     console.log('📊 Record Counts:')
-    
-    const tracksCount = await db.select({ count: sql`count(*)` }).from(tracks)
-    console.log(`   tracks: ${tracksCount[0].count} records`)
-    
-    const recentCount = await db.select({ count: sql`count(*)` }).from(recentlyPlayed) 
-    console.log(`   recently_played: ${recentCount[0].count} records`)
-    
-    const playlistsCount = await db.select({ count: sql`count(*)` }).from(madeForYouPlaylists)
-    console.log(`   made_for_you_playlists: ${playlistsCount[0].count} records`)
-    
-    const albumsCount = await db.select({ count: sql`count(*)` }).from(popularAlbums)
-    console.log(`   popular_albums: ${albumsCount[0].count} records\n`)
-
-    // Show actual data samples
-    console.log('🎵 Sample Data from Tables:\n')
-    
-    // Sample tracks
-    console.log('📀 TRACKS:')
-    const sampleTracks = await db.select().from(tracks).limit(3)
-    sampleTracks.forEach(track => {
-      console.log(`   ID: ${track.id} | "${track.title}" by ${track.artist}`)
-    })
-    
-    // Sample recently played
-    console.log('\n⏮️  RECENTLY PLAYED:')
-    const sampleRecent = await db.select().from(recentlyPlayed).limit(3)
-    sampleRecent.forEach(recent => {
-      console.log(`   ID: ${recent.id} | Track ID: ${recent.trackId} | Played: ${recent.playedAt}`)
-    })
-    
-    // Sample Made for You playlists
-    console.log('\n🎶 MADE FOR YOU PLAYLISTS:')
-    const samplePlaylists = await db.select().from(madeForYouPlaylists).limit(3)
-    samplePlaylists.forEach(playlist => {
-      console.log(`   ID: ${playlist.id} | "${playlist.title}"`)
-    })
-    
-    // Sample Popular Albums
-    console.log('\n💿 POPULAR ALBUMS:')
-    const sampleAlbums = await db.select().from(popularAlbums).limit(3)
-    sampleAlbums.forEach(album => {
-      console.log(`   ID: ${album.id} | "${album.title}" by ${album.artist}`)
+    tables.forEach(table => {
+      console.log(`   ${table.name}: ${table.rowCount} records`)
     })
 
+    // Show the live structure and a few rows of each table
+    console.log('\n🎵 Tables and Sample Data:')
+    for (const table of tables) {
+      console.log(`\n📀 ${table.name.toUpperCase()}:`)
+      console.log(`   Columns: ${table.columns.map(column => `${column.name} ${column.type}${column.primaryKey ? ' pk' : ''}`).join(', ')}`)
+      table.foreignKeys.forEach(fk => {
+        console.log(`   ├─ 🔗 ${fk.columns.join(', ')} -> ${fk.table}(${fk.references.join(', ')})`)
+      })
+      table.indexes.forEach(index => {
+        console.log(`   ├─ 🗂️  ${index.name}${index.unique ? ' (unique)' : ''}: ${index.columns.join(', ')}`)
+      })
+
+      const samples = sqlite.prepare(`SELECT * FROM "${table.name}" LIMIT 3`).all() as Record<string, unknown>[]
+      if (!samples.length) {
+        console.log('   └─ (no rows)')
+      }
+      samples.forEach(row => {
+        console.log(`   ${Object.entries(row).map(([key, value]) => `${key}: ${preview(value)}`).join(' | ')}`)
+      })
+    }
+
     console.log('\n✅ Database verification complete!')
     console.log('📝 All data is properly stored in SQLite database!')
 
@@ -66,4 +56,4 @@ async function verifyDatabase() {
   }
 }
 
-verifyDatabase() 
\ No newline at end of file
+verifyDatabase()
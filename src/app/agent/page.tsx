@@ -0,0 +1,251 @@
+"use client"
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Bot, Check, CircleAlert, Loader2, RefreshCw, Send, SkipForward, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { useAgentRuns, type AgentRunState, type FileDiff } from '@/hooks/use-agent-runs'
+import { requestShelfRefresh } from '@/hooks/use-shelf-refresh'
+import { STEP_TITLES, type AgentEvent, type AgentEventStatus, type AgentStep } from '@/lib/agent/events'
+
+interface StepView {
+  step: AgentStep
+  status: AgentEventStatus
+  details: AgentEvent[]
+}
+
+export default function AgentPage() {
+  const { runs, running, start } = useAgentRuns()
+  const [query, setQuery] = useState('')
+  const [dryRun, setDryRun] = useState(false)
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!query.trim() || running) return
+    start(query.trim(), { dryRun })
+    setQuery('')
+  }
+
+  return (
+    <div className="min-h-screen bg-[#121212] text-white">
+      <div className="max-w-4xl mx-auto px-6 py-8 flex flex-col gap-6">
+        <header className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Bot className="w-7 h-7 text-[var(--color-primary)]" />
+            <div>
+              <h1 className="text-2xl font-bold">Database Agent</h1>
+              <p className="text-sm text-[var(--color-muted-foreground)]">
+                Describe what you want stored; the agent plans the tables, data, routes and shelves, then applies them.
+              </p>
+            </div>
+          </div>
+          <Link href="/" className="flex items-center gap-1 text-sm text-[var(--color-muted-foreground)] hover:text-white">
+            <ArrowLeft className="w-4 h-4" /> Home
+          </Link>
+        </header>
+
+        <div className="flex flex-col gap-6">
+          {runs.length === 0 && (
+            <p className="text-[var(--color-muted-foreground)] text-sm">
+              Try &quot;Can you store the recently played songs in a table&quot;.
+            </p>
+          )}
+          {runs.map(run => <RunCard key={run.id} run={run} />)}
+        </div>
+
+        <form onSubmit={handleSubmit} className="sticky bottom-0 bg-[#121212] py-4 flex flex-col gap-3 border-t border-[var(--color-border)]">
+          <div className="flex gap-2">
+            <Input
+              value={query}
+              onChange={event => setQuery(event.target.value)}
+              placeholder="Ask the agent to store or change something..."
+              disabled={running}
+            />
+            <Button type="submit" disabled={running || !query.trim()}>
+              {running ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+              Run
+            </Button>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="dry-run" checked={dryRun} onCheckedChange={setDryRun} disabled={running} />
+            <Label htmlFor="dry-run" className="text-sm text-[var(--color-muted-foreground)]">
+              Dry run (plan and show the changes without applying them)
+            </Label>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+function RunCard({ run }: { run: AgentRunState }) {
+  const [refreshed, setRefreshed] = useState(false)
+  const steps = groupSteps(run.events, run.running)
+  const notes = run.events.filter(event => event.step === 'run' && event.detail && event.status !== 'started')
+
+  const handleRefresh = () => {
+    requestShelfRefresh()
+    setRefreshed(true)
+  }
+
+  return (
+    <section className="flex flex-col gap-3">
+      <div className="self-end max-w-[80%] rounded-2xl bg-[var(--color-primary)] text-black px-4 py-2 text-sm">
+        {run.query}
+        {run.dryRun && <span className="ml-2 text-xs opacity-70">(dry run)</span>}
+      </div>
+
+      <div className="rounded-lg bg-[#1e1e1e] p-4 flex flex-col gap-4">
+        <ol className="flex flex-col gap-3">
+          {steps.map(step => (
+            <li key={step.step}>
+              <div className="flex items-center gap-2 font-medium text-sm">
+                <StatusIcon status={step.status} />
+                {STEP_TITLES[step.step]}
+              </div>
+              <ul className="ml-6 mt-1 flex flex-col gap-0.5">
+                {step.details.map((event, index) => (
+                  <li key={index} className={`text-xs ${detailColor(event.status)}`}>
+                    {event.detail?.includes('\n')
+                      ? <pre className="whitespace-pre-wrap font-mono">{event.detail}</pre>
+                      : event.detail}
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ol>
+
+        {run.running && steps.length === 0 && (
+          <div className="flex items-center gap-2 text-sm text-[var(--color-muted-foreground)]">
+            <Loader2 className="w-4 h-4 animate-spin" /> Starting...
+          </div>
+        )}
+
+        {run.error && <p className="text-sm text-red-400">{run.error}</p>}
+
+        {run.report && (
+          <div className="flex flex-col gap-3 border-t border-[var(--color-border)] pt-3">
+            <div className="flex items-center gap-2 text-sm font-semibold">
+              <StatusIcon status={run.report.status === 'failed' ? 'failed' : 'done'} />
+              {run.report.status === 'applied' && 'Changes applied'}
+              {run.report.status === 'planned' && 'Changes planned (nothing was applied)'}
+              {run.report.status === 'failed' && 'The run failed, nothing was changed'}
+            </div>
+
+            {run.report.errors.map((error, index) => (
+              <p key={index} className="text-sm text-red-400">{error}</p>
+            ))}
+
+            {run.report.plan && (
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+                <dt className="text-[var(--color-muted-foreground)]">Operation</dt>
+                <dd>{run.report.plan.operation}</dd>
+                <dt className="text-[var(--color-muted-foreground)]">Tables</dt>
+                <dd>{run.report.plan.tables.join(', ')}</dd>
+                <dt className="text-[var(--color-muted-foreground)]">Description</dt>
+                <dd>{run.report.plan.description}</dd>
+                {run.report.snapshotId && (
+                  <>
+                    <dt className="text-[var(--color-muted-foreground)]">Snapshot</dt>
+                    <dd className="font-mono">{run.report.snapshotId}</dd>
+                  </>
+                )}
+              </dl>
+            )}
+
+            {run.diffs.length > 0 && (
+              <div className="flex flex-col gap-2">
+                {run.diffs.map(diff => <DiffView key={diff.path} diff={diff} />)}
+              </div>
+            )}
+
+            {notes.map((event, index) => (
+              <p key={index} className="text-xs text-[var(--color-muted-foreground)]">{event.detail}</p>
+            ))}
+
+            {run.report.status === 'applied' && (
+              <div className="flex items-center gap-3">
+                <Button variant="secondary" size="sm" onClick={handleRefresh}>
+                  <RefreshCw className="w-4 h-4" /> Refresh home shelves
+                </Button>
+                {refreshed && (
+                  <span className="text-xs text-[var(--color-muted-foreground)]">
+                    Open home views have been asked to reload. <Link href="/" className="underline">Go home</Link>
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </section>
+  )
+}
+
+function DiffView({ diff }: { diff: FileDiff }) {
+  return (
+    <details className="rounded bg-black/40">
+      <summary className="cursor-pointer px-3 py-1.5 text-xs font-mono">{diff.path}</summary>
+      <pre className="px-3 pb-3 text-xs font-mono overflow-x-auto">
+        {diff.diff.split('\n').map((line, index) => (
+          <div key={index} className={line.startsWith('+') ? 'text-green-400' : line.startsWith('-') ? 'text-red-400' : 'text-[var(--color-muted-foreground)]'}>
+            {line || ' '}
+          </div>
+        ))}
+      </pre>
+    </details>
+  )
+}
+
+function StatusIcon({ status }: { status: AgentEventStatus }) {
+  switch (status) {
+    case 'started':
+    case 'progress':
+      return <Loader2 className="w-4 h-4 animate-spin text-[var(--color-primary)]" />
+    case 'done':
+      return <Check className="w-4 h-4 text-green-400" />
+    case 'skipped':
+      return <SkipForward className="w-4 h-4 text-[var(--color-muted-foreground)]" />
+    case 'warning':
+      return <CircleAlert className="w-4 h-4 text-yellow-400" />
+    case 'failed':
+      return <X className="w-4 h-4 text-red-400" />
+  }
+}
+
+function detailColor(status: AgentEventStatus): string {
+  if (status === 'failed') return 'text-red-400'
+  if (status === 'warning') return 'text-yellow-400'
+  return 'text-[var(--color-muted-foreground)]'
+}
+
+// One entry per numbered step; only the last one can still be in progress
+function groupSteps(events: AgentEvent[], running: boolean): StepView[] {
+  const steps: StepView[] = []
+  for (const event of events) {
+    if (event.step === 'run') continue
+    let step = steps.find(view => view.step === event.step)
+    if (!step) {
+      step = { step: event.step, status: 'started', details: [] }
+      steps.push(step)
+    }
+    if (event.detail) step.details.push(event)
+    if (event.status === 'failed' || (event.status === 'warning' && step.status !== 'failed')) {
+      step.status = event.status
+    }
+  }
+
+  const failed = events.some(event => event.step === 'run' && event.status === 'failed')
+  steps.forEach((step, index) => {
+    if (step.status === 'failed' || step.status === 'warning') return
+    const last = index === steps.length - 1
+    if (last && running) step.status = 'progress'
+    else if (last && failed) step.status = 'failed'
+    else step.status = step.details.some(event => event.status === 'skipped') ? 'skipped' : 'done'
+  })
+  return steps
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { DatabaseAgent } from '@/lib/agent/database-agent'
+import { createProvider, type LLMProvider } from '@/lib/agent/providers'
+import { diffFileChange, type Change, type Changeset } from '@/lib/agent/changeset'
+import { buildRunReport } from '@/lib/agent/run-report'
+
+// Runs the database agent on the server and streams its progress as server-sent events:
+// a "step" event per agent event, then one "result" event with the report, plan and file diffs
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const runSchema = z.object({
+  query: z.string().trim().min(1),
+  dryRun: z.boolean().optional(),
+  tools: z.boolean().optional(),
+  tokenBudget: z.number().int().min(0).optional()
+})
+
+// The agent changes one database and the project's files, so runs never overlap
+let running = false
+
+export async function POST(request: NextRequest) {
+  const parsed = runSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request body', issues: parsed.error.issues }, { status: 400 })
+  }
+  if (running) {
+    return NextResponse.json({ error: 'The agent is already running, try again when it has finished' }, { status: 409 })
+  }
+
+  let provider: LLMProvider
+  try {
+    provider = createProvider()
+  } catch (error) {
+    console.error('Error creating the agent provider:', error)
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 })
+  }
+
+  const { query, dryRun, tools, tokenBudget } = parsed.data
+  const encoder = new TextEncoder()
+  running = true
+
+  // A client that goes away stops getting events, but the run carries on to the end: stopping
+  // it halfway would roll back an apply for nothing more than a closed tab
+  let closed = false
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+        } catch {
+          closed = true
+        }
+      }
+
+      try {
+        const agent = new DatabaseAgent(provider, event => send('step', event))
+        const result = await agent.processQuery(query, { dryRun, tools, tokenBudget })
+        send('result', { report: buildRunReport(query, result), diffs: fileDiffs(result.changeset) })
+      } catch (error) {
+        send('result', { report: buildRunReport(query, { error }), diffs: [] })
+      } finally {
+        running = false
+        if (!closed) controller.close()
+      }
+    },
+    cancel() {
+      closed = true
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  })
+}
+
+function fileDiffs(changeset: Changeset): { path: string; diff: string }[] {
+  return changeset.changes
+    .filter((change): change is Extract<Change, { kind: 'write_file' }> => change.kind === 'write_file')
+    .filter(change => change.previous !== change.content)
+    .map(change => ({ path: change.path, diff: diffFileChange(change) }))
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { eq, sql } from 'drizzle-orm'
+import { db } from '@/lib/db'
+import { madeForYouPlaylists } from '@/lib/db/schema'
+
+// Generated by the database agent from the made_for_you_playlists table definition
+
+const projection = {
+  id: madeForYouPlaylists.id,
+  title: madeForYouPlaylists.title,
+  artist: madeForYouPlaylists.description,
+  album: madeForYouPlaylists.title,
+  image: madeForYouPlaylists.image,
+  duration: sql<number>`coalesce((SELECT sum("tracks"."duration") FROM "playlist_tracks" INNER JOIN "tracks" ON "tracks"."id" = "playlist_tracks"."track_id" WHERE "playlist_tracks"."playlist_id" = "made_for_you_playlists"."id"), 0)`
+}
+
+const updateSchema = z.object({
+  title: z.string().optional(),
+  description: z.string().optional(),
+  image: z.string().optional(),
+  createdAt: z.coerce.date().optional()
+}).strict()
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const [row] = await db.select(projection)
+      .from(madeForYouPlaylists)
+      .where(eq(madeForYouPlaylists.id, id))
+      .limit(1)
+
+    if (!row) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+    return NextResponse.json(row)
+  } catch (error) {
+    console.error('Error fetching made for you playlists:', error)
+    return NextResponse.json({ error: 'Failed to fetch made for you playlists' }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    // A body that isn't JSON fails the schema like any other bad body
+    const parsed = updateSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request body', issues: parsed.error.issues }, { status: 400 })
+    }
+    if (!Object.keys(parsed.data).length) {
+      return NextResponse.json({ error: 'No fields to update' }, { status: 400 })
+    }
+
+    const [updated] = await db.update(madeForYouPlaylists)
+      .set(parsed.data)
+      .where(eq(madeForYouPlaylists.id, id))
+      .returning()
+
+    if (!updated) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+    return NextResponse.json(updated)
+  } catch (error) {
+    console.error('Error updating made for you playlists:', error)
+    return NextResponse.json({ error: 'Failed to update made for you playlists' }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const [deleted] = await db.delete(madeForYouPlaylists)
+      .where(eq(madeForYouPlaylists.id, id))
+      .returning()
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    console.error('Error deleting made for you playlists:', error)
+    return NextResponse.json({ error: 'Failed to delete made for you playlists' }, { status: 500 })
+  }
+}
@@ -1,21 +1,84 @@
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { and, eq, type SQL, sql } from 'drizzle-orm'
 import { db } from '@/lib/db'
 import { madeForYouPlaylists } from '@/lib/db/schema'
 
-export async function GET() {
+// Generated by the database agent from the made_for_you_playlists table definition
+
+const projection = {
+  id: madeForYouPlaylists.id,
+  title: madeForYouPlaylists.title,
+  artist: madeForYouPlaylists.description,
+  album: madeForYouPlaylists.title,
+  image: madeForYouPlaylists.image,
+  duration: sql<number>`coalesce((SELECT sum("tracks"."duration") FROM "playlist_tracks" INNER JOIN "tracks" ON "tracks"."id" = "playlist_tracks"."track_id" WHERE "playlist_tracks"."playlist_id" = "made_for_you_playlists"."id"), 0)`
+}
+
+// undefined for a value the column can't hold, which gets the request a 400
+const filters: Record<string, (value: string) => SQL | undefined> = {
+  id: value => eq(madeForYouPlaylists.id, value),
+  title: value => eq(madeForYouPlaylists.title, value),
+  description: value => eq(madeForYouPlaylists.description, value),
+  image: value => eq(madeForYouPlaylists.image, value),
+  createdAt: value => Number.isNaN(new Date(value).getTime()) ? undefined : eq(madeForYouPlaylists.createdAt, new Date(value))
+}
+
+const createSchema = z.object({
+  id: z.string().optional(),
+  title: z.string(),
+  description: z.string(),
+  image: z.string(),
+  createdAt: z.coerce.date().optional()
+})
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 100
+
+export async function GET(request: NextRequest) {
   try {
-    const playlists = await db.select({
-      id: madeForYouPlaylists.id,
-      title: madeForYouPlaylists.title,
-      artist: madeForYouPlaylists.description, // Using description as artist field
-      album: madeForYouPlaylists.title, // Using title as album field for consistency
-      image: madeForYouPlaylists.image,
-      duration: 210 // Default duration for playlists
-    }).from(madeForYouPlaylists)
-    
-    return NextResponse.json(playlists)
+    const { searchParams } = request.nextUrl
+    const fields = Object.keys(filters).filter(field => searchParams.has(field))
+    const conditions = fields.map(field => filters[field](searchParams.get(field)!))
+    const invalid = fields.filter((_, index) => !conditions[index])
+    if (invalid.length) {
+      return NextResponse.json({ error: `Invalid value for ${invalid.join(', ')}` }, { status: 400 })
+    }
+    // Clamped below too: SQLite reads a negative LIMIT as no limit at all
+    const limit = searchParams.has('limit') ? Number(searchParams.get('limit')) : DEFAULT_LIMIT
+    const offset = searchParams.has('offset') ? Number(searchParams.get('offset')) : 0
+    if (!Number.isInteger(limit) || !Number.isInteger(offset)) {
+      return NextResponse.json({ error: 'limit and offset must be whole numbers' }, { status: 400 })
+    }
+
+    const rows = await db.select(projection)
+      .from(madeForYouPlaylists)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .limit(Math.min(Math.max(limit, 1), MAX_LIMIT))
+      .offset(Math.max(offset, 0))
+
+    return NextResponse.json(rows)
   } catch (error) {
-    console.error('Error fetching made for you:', error)
+    console.error('Error fetching made for you playlists:', error)
     return NextResponse.json({ error: 'Failed to fetch made for you playlists' }, { status: 500 })
   }
-}
\ No newline at end of file
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // A body that isn't JSON fails the schema like any other bad body
+    const parsed = createSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request body', issues: parsed.error.issues }, { status: 400 })
+    }
+
+    const [created] = await db.insert(madeForYouPlaylists)
+      .values({ ...parsed.data, id: parsed.data.id ?? crypto.randomUUID() })
+      .returning()
+
+    return NextResponse.json(created, { status: 201 })
+  } catch (error) {
+    console.error('Error creating made for you playlists:', error)
+    return NextResponse.json({ error: 'Failed to create made for you playlists' }, { status: 500 })
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { eq, sql } from 'drizzle-orm'
+import { db } from '@/lib/db'
+import { popularAlbums } from '@/lib/db/schema'
+
+// Generated by the database agent from the popular_albums table definition
+
+const projection = {
+  id: popularAlbums.id,
+  title: popularAlbums.title,
+  artist: popularAlbums.artist,
+  album: popularAlbums.title,
+  image: popularAlbums.image,
+  duration: sql<number>`coalesce((SELECT sum("tracks"."duration") FROM "album_tracks" INNER JOIN "tracks" ON "tracks"."id" = "album_tracks"."track_id" WHERE "album_tracks"."album_id" = "popular_albums"."id"), "popular_albums"."duration")`
+}
+
+const updateSchema = z.object({
+  title: z.string().optional(),
+  artist: z.string().optional(),
+  image: z.string().optional(),
+  duration: z.number().int().optional(),
+  createdAt: z.coerce.date().optional()
+}).strict()
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const [row] = await db.select(projection)
+      .from(popularAlbums)
+      .where(eq(popularAlbums.id, id))
+      .limit(1)
+
+    if (!row) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+    return NextResponse.json(row)
+  } catch (error) {
+    console.error('Error fetching popular albums:', error)
+    return NextResponse.json({ error: 'Failed to fetch popular albums' }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    // A body that isn't JSON fails the schema like any other bad body
+    const parsed = updateSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request body', issues: parsed.error.issues }, { status: 400 })
+    }
+    if (!Object.keys(parsed.data).length) {
+      return NextResponse.json({ error: 'No fields to update' }, { status: 400 })
+    }
+
+    const [updated] = await db.update(popularAlbums)
+      .set(parsed.data)
+      .where(eq(popularAlbums.id, id))
+      .returning()
+
+    if (!updated) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+    return NextResponse.json(updated)
+  } catch (error) {
+    console.error('Error updating popular albums:', error)
+    return NextResponse.json({ error: 'Failed to update popular albums' }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const [deleted] = await db.delete(popularAlbums)
+      .where(eq(popularAlbums.id, id))
+      .returning()
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    console.error('Error deleting popular albums:', error)
+    return NextResponse.json({ error: 'Failed to delete popular albums' }, { status: 500 })
+  }
+}
@@ -1,21 +1,86 @@
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { and, eq, type SQL, sql } from 'drizzle-orm'
 import { db } from '@/lib/db'
 import { popularAlbums } from '@/lib/db/schema'
 
-export async function GET() {
+// Generated by the database agent from the popular_albums table definition
+
+const projection = {
+  id: popularAlbums.id,
+  title: popularAlbums.title,
+  artist: popularAlbums.artist,
+  album: popularAlbums.title,
+  image: popularAlbums.image,
+  duration: sql<number>`coalesce((SELECT sum("tracks"."duration") FROM "album_tracks" INNER JOIN "tracks" ON "tracks"."id" = "album_tracks"."track_id" WHERE "album_tracks"."album_id" = "popular_albums"."id"), "popular_albums"."duration")`
+}
+
+// undefined for a value the column can't hold, which gets the request a 400
+const filters: Record<string, (value: string) => SQL | undefined> = {
+  id: value => eq(popularAlbums.id, value),
+  title: value => eq(popularAlbums.title, value),
+  artist: value => eq(popularAlbums.artist, value),
+  image: value => eq(popularAlbums.image, value),
+  duration: value => Number.isNaN(Number(value)) ? undefined : eq(popularAlbums.duration, Number(value)),
+  createdAt: value => Number.isNaN(new Date(value).getTime()) ? undefined : eq(popularAlbums.createdAt, new Date(value))
+}
+
+const createSchema = z.object({
+  id: z.string().optional(),
+  title: z.string(),
+  artist: z.string(),
+  image: z.string(),
+  duration: z.number().int(),
+  createdAt: z.coerce.date().optional()
+})
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 100
+
+export async function GET(request: NextRequest) {
   try {
-    const albums = await db.select({
-      id: popularAlbums.id,
-      title: popularAlbums.title,
-      artist: popularAlbums.artist,
-      album: popularAlbums.title, // Using title as album field for consistency
-      image: popularAlbums.image,
-      duration: popularAlbums.duration
-    }).from(popularAlbums)
-    
-    return NextResponse.json(albums)
+    const { searchParams } = request.nextUrl
+    const fields = Object.keys(filters).filter(field => searchParams.has(field))
+    const conditions = fields.map(field => filters[field](searchParams.get(field)!))
+    const invalid = fields.filter((_, index) => !conditions[index])
+    if (invalid.length) {
+      return NextResponse.json({ error: `Invalid value for ${invalid.join(', ')}` }, { status: 400 })
+    }
+    // Clamped below too: SQLite reads a negative LIMIT as no limit at all
+    const limit = searchParams.has('limit') ? Number(searchParams.get('limit')) : DEFAULT_LIMIT
+    const offset = searchParams.has('offset') ? Number(searchParams.get('offset')) : 0
+    if (!Number.isInteger(limit) || !Number.isInteger(offset)) {
+      return NextResponse.json({ error: 'limit and offset must be whole numbers' }, { status: 400 })
+    }
+
+    const rows = await db.select(projection)
+      .from(popularAlbums)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .limit(Math.min(Math.max(limit, 1), MAX_LIMIT))
+      .offset(Math.max(offset, 0))
+
+    return NextResponse.json(rows)
   } catch (error) {
     console.error('Error fetching popular albums:', error)
     return NextResponse.json({ error: 'Failed to fetch popular albums' }, { status: 500 })
   }
-}
\ No newline at end of file
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // A body that isn't JSON fails the schema like any other bad body
+    const parsed = createSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request body', issues: parsed.error.issues }, { status: 400 })
+    }
+
+    const [created] = await db.insert(popularAlbums)
+      .values({ ...parsed.data, id: parsed.data.id ?? crypto.randomUUID() })
+      .returning()
+
+    return NextResponse.json(created, { status: 201 })
+  } catch (error) {
+    console.error('Error creating popular albums:', error)
+    return NextResponse.json({ error: 'Failed to create popular albums' }, { status: 500 })
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { eq } from 'drizzle-orm'
+import { db } from '@/lib/db'
+import { recentlyPlayed, tracks } from '@/lib/db/schema'
+
+// Generated by the database agent from the recently_played table definition
+
+const projection = {
+  id: recentlyPlayed.id,
+  trackId: tracks.id,
+  title: tracks.title,
+  artist: tracks.artist,
+  album: tracks.album,
+  image: tracks.albumArt,
+  duration: tracks.duration,
+  playedAt: recentlyPlayed.playedAt
+}
+
+const updateSchema = z.object({
+  trackId: z.string().optional(),
+  playedAt: z.coerce.date().optional()
+}).strict()
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const [row] = await db.select(projection)
+      .from(recentlyPlayed)
+      .innerJoin(tracks, eq(recentlyPlayed.trackId, tracks.id))
+      .where(eq(recentlyPlayed.id, id))
+      .limit(1)
+
+    if (!row) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+    return NextResponse.json(row)
+  } catch (error) {
+    console.error('Error fetching recently played:', error)
+    return NextResponse.json({ error: 'Failed to fetch recently played' }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    // A body that isn't JSON fails the schema like any other bad body
+    const parsed = updateSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request body', issues: parsed.error.issues }, { status: 400 })
+    }
+    if (!Object.keys(parsed.data).length) {
+      return NextResponse.json({ error: 'No fields to update' }, { status: 400 })
+    }
+
+    const [updated] = await db.update(recentlyPlayed)
+      .set(parsed.data)
+      .where(eq(recentlyPlayed.id, id))
+      .returning()
+
+    if (!updated) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+    return NextResponse.json(updated)
+  } catch (error) {
+    console.error('Error updating recently played:', error)
+    return NextResponse.json({ error: 'Failed to update recently played' }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const [deleted] = await db.delete(recentlyPlayed)
+      .where(eq(recentlyPlayed.id, id))
+      .returning()
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    console.error('Error deleting recently played:', error)
+    return NextResponse.json({ error: 'Failed to delete recently played' }, { status: 500 })
+  }
+}
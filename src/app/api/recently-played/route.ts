@@ -1,27 +1,84 @@
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { and, eq, type SQL } from 'drizzle-orm'
 import { db } from '@/lib/db'
-import { tracks, recentlyPlayed } from '@/lib/db/schema'
-import { eq } from 'drizzle-orm'
+import { recentlyPlayed, tracks } from '@/lib/db/schema'
 
-export async function GET() {
+// Generated by the database agent from the recently_played table definition
+
+const projection = {
+  id: recentlyPlayed.id,
+  trackId: tracks.id,
+  title: tracks.title,
+  artist: tracks.artist,
+  album: tracks.album,
+  image: tracks.albumArt,
+  duration: tracks.duration,
+  playedAt: recentlyPlayed.playedAt
+}
+
+// undefined for a value the column can't hold, which gets the request a 400
+const filters: Record<string, (value: string) => SQL | undefined> = {
+  id: value => eq(recentlyPlayed.id, value),
+  trackId: value => eq(recentlyPlayed.trackId, value),
+  playedAt: value => Number.isNaN(new Date(value).getTime()) ? undefined : eq(recentlyPlayed.playedAt, new Date(value))
+}
+
+const createSchema = z.object({
+  id: z.string().optional(),
+  trackId: z.string(),
+  playedAt: z.coerce.date().optional()
+})
+
+const DEFAULT_LIMIT = 10
+const MAX_LIMIT = 100
+
+export async function GET(request: NextRequest) {
   try {
-    const recentTracks = await db.select({
-      id: tracks.id,
-      title: tracks.title,
-      artist: tracks.artist,
-      album: tracks.album,
-      image: tracks.albumArt,
-      duration: tracks.duration,
-      playedAt: recentlyPlayed.playedAt
-    })
-    .from(recentlyPlayed)
-    .innerJoin(tracks, eq(recentlyPlayed.trackId, tracks.id))
-    .orderBy(recentlyPlayed.playedAt)
-    .limit(10)
-    
-    return NextResponse.json(recentTracks)
+    const { searchParams } = request.nextUrl
+    const fields = Object.keys(filters).filter(field => searchParams.has(field))
+    const conditions = fields.map(field => filters[field](searchParams.get(field)!))
+    const invalid = fields.filter((_, index) => !conditions[index])
+    if (invalid.length) {
+      return NextResponse.json({ error: `Invalid value for ${invalid.join(', ')}` }, { status: 400 })
+    }
+    // Clamped below too: SQLite reads a negative LIMIT as no limit at all
+    const limit = searchParams.has('limit') ? Number(searchParams.get('limit')) : DEFAULT_LIMIT
+    const offset = searchParams.has('offset') ? Number(searchParams.get('offset')) : 0
+    if (!Number.isInteger(limit) || !Number.isInteger(offset)) {
+      return NextResponse.json({ error: 'limit and offset must be whole numbers' }, { status: 400 })
+    }
+
+    const rows = await db.select(projection)
+      .from(recentlyPlayed)
+      .innerJoin(tracks, eq(recentlyPlayed.trackId, tracks.id))
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(recentlyPlayed.playedAt)
+      .limit(Math.min(Math.max(limit, 1), MAX_LIMIT))
+      .offset(Math.max(offset, 0))
+
+    return NextResponse.json(rows)
   } catch (error) {
     console.error('Error fetching recently played:', error)
     return NextResponse.json({ error: 'Failed to fetch recently played' }, { status: 500 })
   }
-}
\ No newline at end of file
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // A body that isn't JSON fails the schema like any other bad body
+    const parsed = createSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request body', issues: parsed.error.issues }, { status: 400 })
+    }
+
+    const [created] = await db.insert(recentlyPlayed)
+      .values({ ...parsed.data, id: parsed.data.id ?? crypto.randomUUID() })
+      .returning()
+
+    return NextResponse.json(created, { status: 201 })
+  } catch (error) {
+    console.error('Error creating recently played:', error)
+    return NextResponse.json({ error: 'Failed to create recently played' }, { status: 500 })
+  }
+}
@@ -0,0 +1,7 @@
+import type { ComponentType } from "react"
+import type { ShelfSectionProps } from "@/types"
+
+// Generated by the database agent: every database-backed shelf it has added to the home view.
+// Rebuilt from the *-section.tsx files in this folder on each run; edit those, not this list.
+
+export const generatedSections: { id: string; Section: ComponentType<ShelfSectionProps> }[] = []
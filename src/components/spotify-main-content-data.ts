@@ -0,0 +1,172 @@
+// Hardcoded shelf data the home view falls back to, and the agent's source when it populates
+// the database. Kept out of the "use client" component so server code can import it too.
+
+export const recentlyPlayedData = [
+  { 
+    id: "1",
+    title: "Liked Songs", 
+    artist: "320 songs",
+    album: "Your Music",
+    image: "https://v3.fal.media/files/panda/kvQ0deOgoUWHP04ajVH3A_output.png",
+    duration: 180
+  },
+  { 
+    id: "2",
+    title: "Discover Weekly", 
+    artist: "Spotify",
+    album: "Weekly Mix",
+    image: "https://v3.fal.media/files/kangaroo/HRayeBi01JIqfkCjjoenp_output.png",
+    duration: 210
+  },
+  { 
+    id: "3",
+    title: "Release Radar", 
+    artist: "Spotify",
+    album: "New Releases",
+    image: "https://v3.fal.media/files/panda/q7hWJCgH2Fy4cJdWqAzuk_output.png",
+    duration: 195
+  },
+  { 
+    id: "4",
+    title: "Daily Mix 1", 
+    artist: "Spotify",
+    album: "Daily Mix",
+    image: "https://v3.fal.media/files/elephant/N5qDbXOpqAlIcK7kJ4BBp_output.png",
+    duration: 225
+  },
+  { 
+    id: "5",
+    title: "Chill Hits", 
+    artist: "Spotify",
+    album: "Chill Collection",
+    image: "https://v3.fal.media/files/rabbit/tAQ6AzJJdlEZW-y4eNdxO_output.png",
+    duration: 240
+  },
+  { 
+    id: "6",
+    title: "Top 50 - Global", 
+    artist: "Spotify",
+    album: "Global Charts",
+    image: "https://v3.fal.media/files/kangaroo/0OgdfDAzLEbkda0m7uLJw_output.png",
+    duration: 205
+  }
+]
+
+export const madeForYouData = [
+  { 
+    id: "7",
+    title: "Discover Weekly", 
+    artist: "Your weekly mixtape of fresh music",
+    album: "Weekly Discovery",
+    image: "https://v3.fal.media/files/kangaroo/HRayeBi01JIqfkCjjoenp_output.png",
+    duration: 210
+  },
+  { 
+    id: "8",
+    title: "Release Radar", 
+    artist: "Catch all the latest music from artists you follow",
+    album: "New Music Friday",
+    image: "https://v3.fal.media/files/panda/q7hWJCgH2Fy4cJdWqAzuk_output.png",
+    duration: 195
+  },
+  { 
+    id: "9",
+    title: "Daily Mix 1", 
+    artist: "Billie Eilish, Lorde, Clairo and more",
+    album: "Alternative Mix",
+    image: "https://v3.fal.media/files/elephant/N5qDbXOpqAlIcK7kJ4BBp_output.png",
+    duration: 225
+  },
+  { 
+    id: "10",
+    title: "Daily Mix 2", 
+    artist: "Arctic Monkeys, The Strokes, Tame Impala and more",
+    album: "Indie Rock Mix",
+    image: "https://v3.fal.media/files/rabbit/tAQ6AzJJdlEZW-y4eNdxO_output.png",
+    duration: 240
+  },
+  { 
+    id: "11",
+    title: "Daily Mix 3", 
+    artist: "Taylor Swift, Olivia Rodrigo, Gracie Abrams and more",
+    album: "Pop Mix",
+    image: "https://v3.fal.media/files/rabbit/b11V_uidRMsa2mTr5mCfz_output.png",
+    duration: 190
+  },
+  { 
+    id: "12",
+    title: "On Repeat", 
+    artist: "The songs you can't get enough of",
+    album: "Your Favorites",
+    image: "https://v3.fal.media/files/rabbit/mVegWQYIe0yj8NixTQQG-_output.png",
+    duration: 220
+  }
+]
+
+export const popularAlbumsData = [
+  { 
+    id: "13",
+    title: "Midnights", 
+    artist: "Taylor Swift",
+    album: "Midnights",
+    image: "https://v3.fal.media/files/elephant/C_rLsEbIUdbn6nQ0wz14S_output.png",
+    duration: 275
+  },
+  { 
+    id: "14",
+    title: "Harry's House", 
+    artist: "Harry Styles",
+    album: "Harry's House",
+    image: "https://v3.fal.media/files/panda/kvQ0deOgoUWHP04ajVH3A_output.png",
+    duration: 245
+  },
+  { 
+    id: "15",
+    title: "Un Verano Sin Ti", 
+    artist: "Bad Bunny",
+    album: "Un Verano Sin Ti",
+    image: "https://v3.fal.media/files/kangaroo/HRayeBi01JIqfkCjjoenp_output.png",
+    duration: 265
+  },
+  { 
+    id: "16",
+    title: "Renaissance", 
+    artist: "Beyoncé",
+    album: "Renaissance",
+    image: "https://v3.fal.media/files/elephant/N5qDbXOpqAlIcK7kJ4BBp_output.png",
+    duration: 290
+  },
+  { 
+    id: "17",
+    title: "SOUR", 
+    artist: "Olivia Rodrigo",
+    album: "SOUR",
+    image: "https://v3.fal.media/files/rabbit/tAQ6AzJJdlEZW-y4eNdxO_output.png",
+    duration: 215
+  },
+  { 
+    id: "18",
+    title: "Folklore", 
+    artist: "Taylor Swift",
+    album: "Folklore",
+    image: "https://v3.fal.media/files/rabbit/b11V_uidRMsa2mTr5mCfz_output.png",
+    duration: 285
+  },
+  { 
+    id: "19",
+    title: "Fine Line", 
+    artist: "Harry Styles",
+    album: "Fine Line",
+    image: "https://v3.fal.media/files/panda/q7hWJCgH2Fy4cJdWqAzuk_output.png",
+    duration: 255
+  },
+  { 
+    id: "20",
+    title: "After Hours", 
+    artist: "The Weeknd",
+    album: "After Hours",
+    image: "https://v3.fal.media/files/kangaroo/0OgdfDAzLEbkda0m7uLJw_output.png",
+    duration: 270
+  }
+]
+
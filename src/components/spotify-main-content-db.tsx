@@ -1,7 +1,10 @@
 "use client"
 
-import { Play, User } from "lucide-react"
-import { useState, useEffect } from "react"
+import { User } from "lucide-react"
+import { useState, useEffect, useCallback } from "react"
+import { MusicCard } from "@/components/music-card"
+import { generatedSections } from "@/components/generated"
+import { useShelfRefresh } from "@/hooks/use-shelf-refresh"
 
 interface Track {
   id: string
@@ -12,69 +15,6 @@ interface Track {
   duration: number
 }
 
-interface MusicCardProps {
-  title: string
-  artist: string
-  image?: string
-  size?: "small" | "medium" | "large"
-  className?: string
-  onPlay?: () => void
-}
-
-function MusicCard({ title, artist, image, size = "medium", className = "", onPlay }: MusicCardProps) {
-  const [isHovered, setIsHovered] = useState(false)
-
-  const sizeClasses = {
-    small: "w-[180px] h-[180px]",
-    medium: "w-full aspect-square",
-    large: "w-full aspect-square"
-  }
-
-  const handlePlayClick = (e: React.MouseEvent) => {
-    e.stopPropagation()
-    onPlay?.()
-  }
-
-  return (
-    <div 
-      className={`group cursor-pointer p-4 rounded-lg transition-all duration-300 hover:bg-[var(--color-interactive-hover)] border border-transparent hover:border-gray-600/50 ${className}`}
-      onMouseEnter={() => setIsHovered(true)}
-      onMouseLeave={() => setIsHovered(false)}
-    >
-      <div className={`relative ${sizeClasses[size]} mb-4`}>
-        <div className="w-full h-full bg-[var(--color-muted)] rounded-lg flex items-center justify-center overflow-hidden">
-          {image ? (
-            <img 
-              src={image} 
-              alt={title}
-              className="w-full h-full object-cover rounded-lg"
-            />
-          ) : (
-            <div className="w-full h-full bg-gradient-to-br from-[var(--color-primary)] to-[var(--color-chart-1)] opacity-20 rounded-lg"></div>
-          )}
-        </div>
-        
-        {/* Play button overlay */}
-        <div className={`absolute inset-0 flex items-center justify-center transition-opacity duration-300 ${
-          isHovered ? 'opacity-100' : 'opacity-0'
-        }`}>
-          <div 
-            onClick={handlePlayClick}
-            className="w-12 h-12 bg-[var(--color-primary)] rounded-full flex items-center justify-center shadow-lg transform transition-transform duration-300 hover:scale-110 cursor-pointer"
-          >
-            <Play className="w-5 h-5 text-black fill-black ml-1" />
-          </div>
-        </div>
-      </div>
-      
-      <div className="space-y-1">
-        <h3 className="font-medium text-[var(--color-text-primary)] text-sm truncate">{title}</h3>
-        <p className="text-[var(--color-text-secondary)] text-xs truncate">{artist}</p>
-      </div>
-    </div>
-  )
-}
-
 interface SpotifyMainContentProps {
   onPlayTrack?: (track: Track) => void
 }
@@ -86,11 +26,7 @@ export default function SpotifyMainContentDB({ onPlayTrack }: SpotifyMainContent
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
-  useEffect(() => {
-    fetchData()
-  }, [])
-
-  const fetchData = async () => {
+  const fetchData = useCallback(async () => {
     try {
       setLoading(true)
       setError(null)
@@ -122,7 +58,12 @@ export default function SpotifyMainContentDB({ onPlayTrack }: SpotifyMainContent
     } finally {
       setLoading(false)
     }
-  }
+  }, [])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+  useShelfRefresh(fetchData)
 
   const handlePlayTrack = (item: Track) => {
     const track: Track = {
@@ -261,6 +202,11 @@ export default function SpotifyMainContentDB({ onPlayTrack }: SpotifyMainContent
         </div>
       </section>
 
+      {/* Shelves added by the database agent */}
+      {generatedSections.map(({ id, Section }) => (
+        <Section key={id} onPlayTrack={handlePlayTrack} />
+      ))}
+
       <style jsx>{`
         .scrollbar-hide {
           /* Hide scrollbar for Chrome, Safari and Opera */
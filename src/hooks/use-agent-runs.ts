@@ -0,0 +1,81 @@
+import * as React from "react"
+import type { AgentEvent } from "@/lib/agent/events"
+import type { RunReport } from "@/lib/agent/run-report"
+
+export interface FileDiff {
+  path: string
+  diff: string
+}
+
+export interface AgentRunState {
+  id: number
+  query: string
+  dryRun: boolean
+  events: AgentEvent[]
+  report: RunReport | null
+  diffs: FileDiff[]
+  error: string | null // the request itself failed, e.g. another run was in progress
+  running: boolean
+}
+
+// Runs queries through /api/agent and collects the streamed step events per run
+export function useAgentRuns() {
+  const [runs, setRuns] = React.useState<AgentRunState[]>([])
+
+  const start = React.useCallback(async (query: string, { dryRun = false } = {}) => {
+    const id = Date.now()
+    const update = (change: (run: AgentRunState) => Partial<AgentRunState>) =>
+      setRuns(current => current.map(run => run.id === id ? { ...run, ...change(run) } : run))
+    setRuns(current => [...current, { id, query, dryRun, events: [], report: null, diffs: [], error: null, running: true }])
+
+    try {
+      const response = await fetch("/api/agent", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ query, dryRun })
+      })
+      if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => null)
+        throw new Error(body?.error ?? `Request failed with status ${response.status}`)
+      }
+
+      for await (const { event, data } of readServerSentEvents(response.body)) {
+        if (event === "step") {
+          update(run => ({ events: [...run.events, data as AgentEvent] }))
+        } else if (event === "result") {
+          const { report, diffs } = data as { report: RunReport; diffs: FileDiff[] }
+          update(() => ({ report, diffs }))
+        }
+      }
+    } catch (err) {
+      console.error("Error running the agent:", err)
+      update(() => ({ error: (err as Error).message }))
+    } finally {
+      update(() => ({ running: false }))
+    }
+  }, [])
+
+  return { runs, running: runs.some(run => run.running), start }
+}
+
+// EventSource only does GET, so the POST response stream is parsed by hand
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>) {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ""
+
+  while (true) {
+    const { value, done } = await reader.read()
+    if (done) return
+    buffer += value
+
+    let boundary = buffer.indexOf("\n\n")
+    while (boundary !== -1) {
+      const message = buffer.slice(0, boundary)
+      buffer = buffer.slice(boundary + 2)
+      const event = message.match(/^event: (.*)$/m)?.[1] ?? "message"
+      const data = message.match(/^data: (.*)$/m)?.[1]
+      if (data) yield { event, data: JSON.parse(data) as unknown }
+      boundary = buffer.indexOf("\n\n")
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import * as React from "react"
+
+// The agent page tells open home views to refetch their shelves once a run has changed the data
+const SHELF_REFRESH_CHANNEL = "spotify-db-agent:shelves"
+
+export function requestShelfRefresh() {
+  const channel = new BroadcastChannel(SHELF_REFRESH_CHANNEL)
+  channel.postMessage("refresh")
+  channel.close()
+}
+
+export function useShelfRefresh(onRefresh: () => void) {
+  React.useEffect(() => {
+    const channel = new BroadcastChannel(SHELF_REFRESH_CHANNEL)
+    channel.onmessage = () => onRefresh()
+    return () => channel.close()
+  }, [onRefresh])
+}
@@ -0,0 +1,250 @@
+// "Ask the database": the model writes one SELECT, which is parsed, checked and run on a
+// separate read-only connection with row and time limits.
+
+import { spawn } from 'child_process'
+import Database from 'better-sqlite3'
+import type BetterSqlite3 from 'better-sqlite3'
+import { Parser } from 'node-sql-parser/build/sqlite'
+import { z } from 'zod'
+import { isInternalTable } from '../db/introspect'
+import { extractJson } from './plan'
+import type { LLMMessage, LLMProvider } from './providers'
+
+export const DEFAULT_ROW_LIMIT = 100
+export const DEFAULT_TIME_LIMIT_MS = 2000
+export const DEFAULT_ASK_REPAIRS = 2
+
+const askResponseSchema = z.object({
+  sql: z.string().min(1),
+  explanation: z.string().optional()
+})
+
+export interface AskOptions {
+  schema: string // rendered live schema, see renderSchemaForPrompt
+  rowLimit?: number
+  timeLimitMs?: number
+  maxRepairs?: number
+  onRepair?: (error: string, attempt: number) => void
+}
+
+export interface SelectResult {
+  columns: string[]
+  rows: unknown[][]
+  truncated: boolean // more rows were available than the row limit
+  durationMs: number
+}
+
+export interface AskResult extends SelectResult {
+  question: string
+  sql: string
+  explanation?: string
+  attempts: number
+}
+
+export class QueryRejectedError extends Error {
+  constructor(message: string, readonly sql: string) {
+    super(message)
+    this.name = 'QueryRejectedError'
+  }
+}
+
+export class QueryTimeoutError extends Error {
+  constructor(readonly timeLimitMs: number, readonly rowsRead: number) {
+    super(`The query ran past its ${timeLimitMs}ms time limit (${rowsRead} row(s) read)`)
+    this.name = 'QueryTimeoutError'
+  }
+}
+
+// A second handle on the same file that cannot write. better-sqlite3 does not expose
+// sqlite3_set_authorizer, so query_only plus the statement checks in checkSelect stand in for it.
+export function openReadOnly(filename: string): BetterSqlite3.Database {
+  const connection = new Database(filename, { readonly: true, fileMustExist: true, timeout: 1000 })
+  connection.pragma('query_only = ON')
+  return connection
+}
+
+const parser = new Parser()
+
+// Parse and prepare without running: exactly one SELECT (CTEs allowed) that reads only
+// application tables, and that SQLite itself reports as read-only.
+export function checkSelect(connection: BetterSqlite3.Database, sql: string): BetterSqlite3.Statement {
+  const text = sql.trim().replace(/;+\s*$/, '')
+
+  let ast
+  try {
+    ast = parser.astify(text)
+  } catch (error) {
+    throw new QueryRejectedError(`Could not parse the SQL: ${(error as Error).message}`, text)
+  }
+  const statements = Array.isArray(ast) ? ast : [ast]
+  if (statements.length !== 1) {
+    throw new QueryRejectedError(`Expected a single statement, got ${statements.length}`, text)
+  }
+  if (statements[0].type !== 'select') {
+    throw new QueryRejectedError(`Only SELECT statements are allowed, got ${statements[0].type.toUpperCase()}`, text)
+  }
+
+  // Entries look like "select::null::tracks"
+  const tables = parser.tableList(text).map(entry => entry.split('::'))
+  const writes = tables.filter(([action]) => action.toLowerCase() !== 'select')
+  if (writes.length) {
+    throw new QueryRejectedError(`The query would ${writes.map(([action, , table]) => `${action.toLowerCase()} ${table}`).join(', ')}`, text)
+  }
+  const internal = tables.filter(([, , table]) => isInternalTable(table))
+  if (internal.length) {
+    throw new QueryRejectedError(`Internal tables cannot be queried: ${internal.map(([, , table]) => table).join(', ')}`, text)
+  }
+
+  let statement: BetterSqlite3.Statement
+  try {
+    statement = connection.prepare(text)
+  } catch (error) {
+    throw new QueryRejectedError((error as Error).message, text)
+  }
+  if (!statement.reader || !statement.readonly) {
+    throw new QueryRejectedError('SQLite reports that this statement is not a read-only query', text)
+  }
+  return statement
+}
+
+// Runs in the child process: the statement on its own read-only connection, one JSON row per
+// line on stdout (one past the row limit, to tell whether there were more)
+const SELECT_RUNNER = `
+const Database = require('better-sqlite3')
+const [filename, sql, rowLimit] = process.argv.slice(-3)
+try {
+  const connection = new Database(filename, { readonly: true, fileMustExist: true, timeout: 1000 })
+  connection.pragma('query_only = ON')
+  let count = 0
+  for (const row of connection.prepare(sql).raw(true).iterate()) {
+    process.stdout.write(JSON.stringify(row) + '\\n')
+    if (++count > Number(rowLimit)) break
+  }
+} catch (error) {
+  process.stderr.write(error.message)
+  process.exitCode = 1
+}
+`
+
+// better-sqlite3 runs a query synchronously and can't interrupt SQLite, so a single slow step
+// (a cross join, a recursive CTE) would block this process past any deadline. The query runs
+// in a child process instead, which is killed when the time limit is up.
+export function executeSelect(
+  statement: BetterSqlite3.Statement,
+  { rowLimit = DEFAULT_ROW_LIMIT, timeLimitMs = DEFAULT_TIME_LIMIT_MS } = {}
+): Promise<SelectResult> {
+  const startedAt = Date.now()
+  const columns = statement.columns().map(column => column.name)
+  const rows: unknown[][] = []
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, ['-e', SELECT_RUNNER, statement.database.name, statement.source, String(rowLimit)], {
+      stdio: ['ignore', 'pipe', 'pipe']
+    })
+    let timedOut = false
+    const timer = setTimeout(() => {
+      timedOut = true
+      child.kill('SIGKILL')
+    }, timeLimitMs)
+
+    let pending = ''
+    let stderr = ''
+    child.stdout.setEncoding('utf8').on('data', (chunk: string) => {
+      const lines = (pending + chunk).split('\n')
+      pending = lines.pop()!
+      lines.forEach(line => rows.push(JSON.parse(line)))
+    })
+    child.stderr.setEncoding('utf8').on('data', (chunk: string) => {
+      stderr += chunk
+    })
+    child.on('error', error => {
+      clearTimeout(timer)
+      reject(error)
+    })
+    child.on('close', code => {
+      clearTimeout(timer)
+      if (timedOut) return reject(new QueryTimeoutError(timeLimitMs, rows.length))
+      if (code !== 0) return reject(new Error(stderr.trim() || `The query process exited with code ${code}`))
+      const truncated = rows.length > rowLimit
+      resolve({ columns, rows: rows.slice(0, rowLimit), truncated, durationMs: Date.now() - startedAt })
+    })
+  })
+}
+
+export function buildAskPrompt(question: string, schema: string, rowLimit = DEFAULT_ROW_LIMIT): string {
+  return `
+    You answer questions about a Spotify clone's SQLite database by writing ONE read-only SQL query.
+
+    Question: "${question}"
+
+    Database schema:
+${schema.split('\n').map(line => `    ${line}`).join('\n')}
+
+    Rules:
+    - Write a single SQLite SELECT statement (a WITH ... SELECT is fine). Never modify data.
+    - Use only the tables and columns listed above, with their exact names.
+    - Give result columns readable aliases.
+    - At most ${rowLimit} rows are shown, so aggregate or ORDER BY ... LIMIT when the question asks for a top or a total.
+
+    Respond with ONLY a JSON object, no prose or markdown:
+    {
+      "sql": "SELECT ...",
+      "explanation": "one sentence on how the query answers the question"
+    }
+  `
+}
+
+// Ask for a query, feeding parse, validation and prepare errors back until the model writes
+// an acceptable SELECT or retries run out. Only a checked statement is ever executed.
+export async function askDatabase(
+  provider: LLMProvider,
+  connection: BetterSqlite3.Database,
+  question: string,
+  { schema, rowLimit = DEFAULT_ROW_LIMIT, timeLimitMs = DEFAULT_TIME_LIMIT_MS, maxRepairs = DEFAULT_ASK_REPAIRS, onRepair }: AskOptions
+): Promise<AskResult> {
+  const messages: LLMMessage[] = [{ role: 'user', content: buildAskPrompt(question, schema, rowLimit) }]
+
+  for (let attempt = 1; ; attempt++) {
+    const { text } = await provider.generateContent({ messages })
+
+    let error: string
+    let sql = ''
+    try {
+      const response = askResponseSchema.parse(JSON.parse(extractJson(text)))
+      sql = response.sql.trim()
+      const statement = checkSelect(connection, sql)
+      return { question, sql, explanation: response.explanation, attempts: attempt, ...await executeSelect(statement, { rowLimit, timeLimitMs }) }
+    } catch (caught) {
+      if (caught instanceof QueryTimeoutError) throw caught
+      if (attempt > maxRepairs) {
+        throw caught instanceof QueryRejectedError ? caught : new QueryRejectedError((caught as Error).message, sql)
+      }
+      error = caught instanceof z.ZodError
+        ? caught.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ')
+        : (caught as Error).message
+    }
+
+    onRepair?.(error, attempt)
+    messages.push(
+      { role: 'assistant', content: text },
+      { role: 'user', content: `That query was rejected: ${error}\n\nRespond again with ONLY the corrected JSON object.` }
+    )
+  }
+}
+
+// Plain-text grid for the terminal; long cells are cut so wide rows stay readable
+export function formatTable(columns: string[], rows: unknown[][], { maxWidth = 40 } = {}): string {
+  const cell = (value: unknown): string => {
+    const text = value === null ? 'NULL' : String(value).replace(/\s+/g, ' ')
+    return text.length > maxWidth ? `${text.slice(0, maxWidth - 1)}…` : text
+  }
+  const cells = rows.map(row => row.map(cell))
+  const widths = columns.map((column, index) => Math.max(column.length, ...cells.map(row => row[index].length)))
+  const line = (values: string[]) => values.map((value, index) => value.padEnd(widths[index])).join(' │ ').trimEnd()
+
+  return [
+    line(columns),
+    widths.map(width => '─'.repeat(width)).join('─┼─'),
+    ...cells.map(line)
+  ].join('\n')
+}
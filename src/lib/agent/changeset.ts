@@ -0,0 +1,194 @@
+// Everything an agent run intends to change, recorded before anything is touched so it
+// can be previewed (--dry-run), saved, and applied later.
+
+import fs from 'fs'
+import type BetterSqlite3 from 'better-sqlite3'
+import type { Database } from '../db'
+import { createTwoFilesPatch } from 'diff'
+import { MIGRATIONS_FOLDER, applyMigrations, planTableMigration, writeMigration } from '../db/migrations'
+import { getSchemaTable, reviveRow } from '../db/tables'
+import type { QueryPlan } from './plan'
+import { UnitOfWork } from './unit-of-work'
+
+export type Change =
+  | { kind: 'migration'; name: string; tables: string[]; up: string[]; down: string[] }
+  | { kind: 'insert'; table: string; description: string; rows: Record<string, unknown>[] }
+  | { kind: 'write_file'; path: string; content: string; previous: string | null }
+
+export interface Changeset {
+  version: 1
+  query: string
+  plan: QueryPlan
+  createdAt: string
+  changes: Change[]
+}
+
+export interface ApplyResult {
+  migrations: string[]
+  rowsInserted: Record<string, number>
+  filesWritten: string[]
+  statements: string[] // SQL executed, in order
+  snapshotId?: string // snapshot of the database taken just before
+}
+
+export class StaleChangesetError extends Error {
+  constructor(message: string) {
+    super(`${message}; re-run the query to build a fresh plan`)
+    this.name = 'StaleChangesetError'
+  }
+}
+
+const INSERT_BATCH_SIZE = 100
+
+export class ChangesetBuilder {
+  private requiredTables: string[] = []
+  private changes: Change[] = []
+
+  requireTables(...tableNames: string[]): void {
+    tableNames.forEach(name => !this.requiredTables.includes(name) && this.requiredTables.push(name))
+  }
+
+  insert(table: string, rows: Record<string, unknown>[], description: string): void {
+    if (rows.length) this.changes.push({ kind: 'insert', table, rows, description })
+  }
+
+  writeFile(filePath: string, content: string): void {
+    this.changes.push({ kind: 'write_file', path: filePath, content, previous: readCurrent(filePath) })
+  }
+
+  plansFile(filePath: string): boolean {
+    return this.changes.some(change => change.kind === 'write_file' && change.path === filePath)
+  }
+
+  // Schema changes go first: inserts and routes depend on the tables existing
+  async build(sqlite: BetterSqlite3.Database, query: string, plan: QueryPlan): Promise<Changeset> {
+    const migration = this.requiredTables.length
+      ? await planTableMigration(sqlite, this.requiredTables, `create_${this.requiredTables.join('_')}`)
+      : null
+
+    const schemaChanges: Change[] = migration
+      ? [{ kind: 'migration', name: migration.name, tables: migration.tables, up: migration.up, down: migration.down }]
+      : []
+
+    return {
+      version: 1,
+      query,
+      plan,
+      createdAt: new Date().toISOString(),
+      changes: [...schemaChanges, ...this.changes]
+    }
+  }
+}
+
+export function loadChangeset(file: string): Changeset {
+  const changeset = JSON.parse(fs.readFileSync(file, 'utf8')) as Changeset
+  if (changeset.version !== 1 || !Array.isArray(changeset.changes)) {
+    throw new Error(`${file} is not an agent plan file`)
+  }
+  return changeset
+}
+
+export function saveChangeset(changeset: Changeset, file: string): void {
+  fs.writeFileSync(file, JSON.stringify(changeset, null, 2))
+}
+
+export interface ApplyTarget {
+  sqlite: BetterSqlite3.Database
+  db: Database
+  unit?: UnitOfWork // pass one to extend the all-or-nothing boundary beyond this call
+}
+
+// Applies every change or none: rows go through a savepoint, files are only written on commit
+export async function applyChangeset(changeset: Changeset, { sqlite, db, unit }: ApplyTarget): Promise<ApplyResult> {
+  if (!unit) {
+    return UnitOfWork.run(sqlite, unit => applyChangeset(changeset, { sqlite, db, unit }))
+  }
+
+  const result: ApplyResult = { migrations: [], rowsInserted: {}, filesWritten: [], statements: [] }
+
+  // Refuse up front rather than after half the changes have gone in
+  for (const change of changeset.changes) {
+    if (change.kind === 'write_file' && readCurrent(change.path) !== change.previous) {
+      throw new StaleChangesetError(`${change.path} changed since the plan was made`)
+    }
+  }
+
+  for (const change of changeset.changes) {
+    if (change.kind === 'migration') {
+      // Anything pending from db:generate runs first, exactly as db:migrate would
+      result.migrations.push(...applyMigrations(sqlite))
+      const current = await planTableMigration(sqlite, change.tables, change.name)
+      if (!current || current.up.join('\n') !== change.up.join('\n')) {
+        throw new StaleChangesetError(`The database schema changed since migration ${change.name} was planned`)
+      }
+      writeMigration(current, MIGRATIONS_FOLDER, (filePath, content) => unit.writeFileNow(filePath, content))
+      result.migrations.push(...applyMigrations(sqlite))
+      result.statements.push(...current.up)
+    } else if (change.kind === 'insert') {
+      const table = getSchemaTable(change.table)
+      const rows = change.rows.map(row => reviveRow(change.table, row))
+      let inserted = 0
+      for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+        const insert = db.insert(table).values(rows.slice(i, i + INSERT_BATCH_SIZE)).onConflictDoNothing()
+        result.statements.push(insert.toSQL().sql)
+        inserted += insert.run().changes
+      }
+      result.rowsInserted[change.table] = (result.rowsInserted[change.table] ?? 0) + inserted
+    } else {
+      if (change.previous === change.content) continue
+      unit.stageFile(change.path, change.content)
+      result.filesWritten.push(change.path)
+    }
+  }
+
+  return result
+}
+
+export function diffFileChange(change: Extract<Change, { kind: 'write_file' }>): string {
+  return createTwoFilesPatch(
+    change.previous === null ? '/dev/null' : `a/${change.path}`,
+    `b/${change.path}`,
+    change.previous ?? '',
+    change.content,
+    undefined,
+    undefined,
+    { context: 3 }
+  )
+}
+
+// Human-readable preview: SQL, row counts with a sample, and unified diffs
+export function formatChangeset(changeset: Changeset, { sampleSize = 2 } = {}): string {
+  const lines: string[] = []
+
+  if (!changeset.changes.length) {
+    return '   (no changes: everything is already in place)'
+  }
+
+  for (const change of changeset.changes) {
+    if (change.kind === 'migration') {
+      lines.push(`   🗄️  Migration ${change.name} creates ${change.tables.join(', ')}:`)
+      change.up.forEach(statement => lines.push(indent(statement.trim(), '      ')))
+    } else if (change.kind === 'insert') {
+      lines.push(`   📥 Insert up to ${change.rows.length} row(s) into ${change.table} (${change.description})`)
+      change.rows.slice(0, sampleSize).forEach(row => lines.push(`      ${JSON.stringify(row)}`))
+      if (change.rows.length > sampleSize) {
+        lines.push(`      … ${change.rows.length - sampleSize} more`)
+      }
+    } else if (change.previous === change.content) {
+      lines.push(`   📄 ${change.path} (unchanged)`)
+    } else {
+      lines.push(`   📄 ${change.previous === null ? 'Create' : 'Overwrite'} ${change.path}:`)
+      lines.push(indent(diffFileChange(change).trimEnd(), '      '))
+    }
+  }
+
+  return lines.join('\n')
+}
+
+function readCurrent(filePath: string): string | null {
+  return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : null
+}
+
+function indent(text: string, prefix: string): string {
+  return text.split('\n').map(line => prefix + line).join('\n')
+}
@@ -0,0 +1,117 @@
+// Memory for `agent chat`: what each earlier turn planned and changed, so follow-ups such as
+// "add a column to that table" or "undo the last one" can be resolved against them.
+
+import fs from 'fs'
+import type { ApplyResult, Changeset } from './changeset'
+import type { QueryPlan } from './plan'
+
+export type TurnStatus = 'applied' | 'planned' | 'failed' | 'undone'
+
+export interface ConversationTurn {
+  query: string
+  at: string
+  status: TurnStatus
+  plan?: QueryPlan
+  tablesCreated: string[]
+  migrations: string[]
+  filesWritten: string[]
+  changeset?: Changeset // kept so the turn can be undone later
+  runId?: string // its entry in the agent_runs log
+  error?: string
+}
+
+export interface SavedConversation {
+  version: 1
+  savedAt: string
+  turns: ConversationTurn[]
+}
+
+const PROMPT_TURNS = 10
+
+export class Conversation {
+  private history: ConversationTurn[] = []
+
+  get turns(): readonly ConversationTurn[] {
+    return this.history
+  }
+
+  record(
+    query: string,
+    result: { changeset?: Changeset; applied?: ApplyResult; runId?: string; error?: unknown }
+  ): ConversationTurn {
+    const { changeset, applied, runId, error } = result
+    const turn: ConversationTurn = {
+      query,
+      at: new Date().toISOString(),
+      status: error ? 'failed' : applied ? 'applied' : 'planned',
+      plan: changeset?.plan,
+      tablesCreated: applied
+        ? (changeset?.changes ?? []).flatMap(change => change.kind === 'migration' ? change.tables : [])
+        : [],
+      migrations: applied?.migrations ?? [],
+      filesWritten: applied?.filesWritten ?? [],
+      changeset,
+      runId,
+      error: error ? (error as Error).message ?? String(error) : undefined
+    }
+    this.history.push(turn)
+    return turn
+  }
+
+  // The most recent turn that changed something and has not been undone
+  lastApplied(): ConversationTurn | undefined {
+    return this.history.findLast(turn => turn.status === 'applied' && turn.plan?.operation !== 'undo')
+  }
+
+  markUndone(turn: ConversationTurn): void {
+    turn.status = 'undone'
+  }
+
+  reset(): void {
+    this.history = []
+  }
+
+  // Compact summary of earlier turns for the analysis prompt
+  summarize(maxTurns = PROMPT_TURNS): string {
+    return this.history.slice(-maxTurns).map((turn, index) => {
+      const details = [
+        turn.plan ? `${turn.plan.operation} on ${turn.plan.tables.join(', ')}` : 'no plan',
+        turn.status,
+        turn.tablesCreated.length ? `created tables ${turn.tablesCreated.join(', ')}` : '',
+        turn.filesWritten.length ? `wrote ${turn.filesWritten.join(', ')}` : ''
+      ].filter(Boolean)
+      return `${index + 1}. "${turn.query}" -> ${details.join('; ')}`
+    }).join('\n')
+  }
+
+  formatHistory(): string {
+    if (!this.history.length) {
+      return '   (no turns yet)'
+    }
+    return this.history.map((turn, index) => {
+      const icon = { applied: '✅', planned: '📋', failed: '❌', undone: '↩️ ' }[turn.status]
+      const lines = [`   ${index + 1}. ${icon} "${turn.query}"`]
+      if (turn.plan) lines.push(`      ├─ ${turn.plan.operation}: ${turn.plan.tables.join(', ')}`)
+      if (turn.tablesCreated.length) lines.push(`      ├─ Tables created: ${turn.tablesCreated.join(', ')}`)
+      if (turn.filesWritten.length) lines.push(`      ├─ Files written: ${turn.filesWritten.join(', ')}`)
+      if (turn.error) lines.push(`      ├─ Error: ${turn.error}`)
+      lines.push(`      └─ ${turn.at}`)
+      return lines.join('\n')
+    }).join('\n')
+  }
+
+  save(file: string): void {
+    const saved: SavedConversation = { version: 1, savedAt: new Date().toISOString(), turns: this.history }
+    fs.writeFileSync(file, JSON.stringify(saved, null, 2))
+  }
+
+  static load(file: string): Conversation {
+    const saved = JSON.parse(fs.readFileSync(file, 'utf8')) as SavedConversation
+    if (saved.version !== 1 || !Array.isArray(saved.turns)) {
+      throw new Error(`${file} is not a saved agent conversation`)
+    }
+    const conversation = new Conversation()
+    conversation.history = saved.turns
+    return conversation
+  }
+}
@@ -0,0 +1,297 @@
+// Golden scenarios for the agent: a query, the model responses to replay and the end state
+// the run must leave behind. Each scenario runs in a child process whose working directory is
+// a fresh temp dir, so it gets its own sqlite.db, drizzle/ folder and generated files.
+
+import { spawnSync } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { z } from 'zod'
+import type BetterSqlite3 from 'better-sqlite3'
+import { tableExists } from '../db/ddl'
+import { renderSchemaForPrompt } from '../db/introspect'
+import { askDatabase, openReadOnly } from './ask'
+import { ScriptedProvider } from './providers'
+import { DatabaseAgent } from './database-agent'
+import { API_ROOT } from './route-generator'
+import { callRoute, resolveRouteFile, shapeProblems } from './route-verifier'
+import { buildRunReport, type RunReport } from './run-report'
+import { RUN_LOG_TABLES } from './run-log'
+import type { AgentReporter } from './events'
+
+export const DEFAULT_SCENARIO_DIR = 'scripts/evals'
+export const DEFAULT_SCENARIO_TIMEOUT_MS = 120_000
+
+const VALUE_TYPES = ['string', 'number', 'boolean', 'null', 'object', 'array'] as const
+
+const routeExpectationSchema = z.object({
+  path: z.string().startsWith('/api/'), // e.g. /api/recently-played or /api/popular-albums/1
+  status: z.number().int().default(200),
+  count: z.number().int().nonnegative().optional(), // length of a list response
+  shape: z.record(z.string(), z.string().refine(isValueType, `expected ${VALUE_TYPES.join(', ')} or a union like "string|null"`)).optional()
+})
+
+const scenarioSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  query: z.string().min(1),
+  apply: z.boolean().default(true), // false runs the query as a dry run
+  tools: z.boolean().optional(),
+  ask: z.object({ // the query is a question for `ask` rather than a change to make
+    rowLimit: z.number().int().positive().optional(),
+    timeLimitMs: z.number().int().positive().optional()
+  }).optional(),
+  model: z.string().optional(),
+  responses: z.array(z.object({
+    match: z.string().optional(),
+    text: z.string().optional(),
+    json: z.unknown().optional(),
+    functionCalls: z.array(z.object({ name: z.string(), args: z.record(z.string(), z.unknown()), id: z.string().optional() })).optional(),
+    repeat: z.boolean().optional()
+  })),
+  expect: z.object({
+    status: z.enum(['applied', 'planned', 'answered', 'failed']).optional(), // defaults to what `apply`, `ask` and `error` imply
+    exitCode: z.number().int().optional(),
+    error: z.string().optional(), // regex tested against the run's errors
+    tables: z.array(z.string()).default([]),
+    missingTables: z.array(z.string()).default([]),
+    rowCounts: z.record(z.string(), z.number().int().nonnegative()).default({}),
+    rows: z.record(z.string(), z.array(z.record(z.string(), z.unknown()))).default({}), // each must match some row
+    files: z.array(z.string()).default([]),
+    routes: z.array(routeExpectationSchema).default([]),
+    maxDurationMs: z.number().int().positive().optional() // the run must be over within this time
+  })
+})
+
+export type EvalScenario = z.infer<typeof scenarioSchema>
+export type EvalExpectations = EvalScenario['expect']
+export type RouteExpectation = z.infer<typeof routeExpectationSchema>
+
+export interface EvalCheck {
+  name: string
+  passed: boolean
+  detail?: string
+}
+
+export interface EvalResult {
+  scenario: string
+  file: string
+  passed: boolean
+  checks: EvalCheck[]
+  report?: RunReport
+  error?: string // the scenario could not be run at all
+  workdir?: string // kept for failed scenarios (or with --keep)
+  durationMs: number
+}
+
+export function loadScenario(file: string): EvalScenario {
+  let json: unknown
+  try {
+    json = JSON.parse(fs.readFileSync(file, 'utf8'))
+  } catch (error) {
+    throw new Error(`Could not read scenario ${file}: ${(error as Error).message}`)
+  }
+  const parsed = scenarioSchema.safeParse(json)
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    throw new Error(`Invalid scenario ${file}: ${issues.join('; ')}`)
+  }
+  return parsed.data
+}
+
+// Scenario files given directly, or every *.json in the given directories
+export function findScenarioFiles(targets: string[]): string[] {
+  return targets.flatMap(target => {
+    if (!fs.existsSync(target)) throw new Error(`Scenario file or directory not found: ${target}`)
+    if (!fs.statSync(target).isDirectory()) return [target]
+    return fs.readdirSync(target)
+      .filter(name => name.endsWith('.json'))
+      .sort()
+      .map(name => path.join(target, name))
+  })
+}
+
+// Run one scenario against whatever database and directory this process is pointed at.
+// Only call this inside an isolated workdir (see runIsolated): the run changes both.
+export async function runScenario(
+  scenario: EvalScenario,
+  sqlite: BetterSqlite3.Database,
+  reporter?: AgentReporter
+): Promise<{ report?: RunReport; checks: EvalCheck[] }> {
+  const provider = new ScriptedProvider({ model: scenario.model, responses: scenario.responses })
+  const startedAt = Date.now()
+  if (scenario.ask) {
+    return { checks: await runAskScenario(scenario, provider, sqlite) }
+  }
+  const agent = new DatabaseAgent(provider, reporter)
+
+  let report: RunReport
+  try {
+    report = buildRunReport(scenario.query, await agent.processQuery(scenario.query, { dryRun: !scenario.apply, tools: scenario.tools }))
+  } catch (error) {
+    report = buildRunReport(scenario.query, { error })
+  }
+  const durationMs = Date.now() - startedAt
+  const status = scenario.expect.status ?? (scenario.expect.error ? 'failed' : scenario.apply ? 'applied' : 'planned')
+  return { report, checks: [...await checkExpectations({ ...scenario.expect, status }, report, sqlite), ...checkDuration(scenario.expect, durationMs)] }
+}
+
+// The question is answered from a read-only handle, as `ask` does; only status, error and
+// duration apply
+async function runAskScenario(scenario: EvalScenario, provider: ScriptedProvider, sqlite: BetterSqlite3.Database): Promise<EvalCheck[]> {
+  const { expect } = scenario
+  const startedAt = Date.now()
+  const reader = openReadOnly(sqlite.name)
+  let error: string | undefined
+  try {
+    await askDatabase(provider, reader, scenario.query, { ...scenario.ask, schema: await renderSchemaForPrompt(reader, { exclude: RUN_LOG_TABLES }) })
+  } catch (caught) {
+    error = (caught as Error).message
+  } finally {
+    reader.close()
+  }
+  const durationMs = Date.now() - startedAt
+
+  const status = expect.status ?? (expect.error ? 'failed' : 'answered')
+  const checks: EvalCheck[] = []
+  const check = (name: string, passed: boolean, detail?: string) => checks.push({ name, passed, detail: passed ? undefined : detail })
+  check(`status is ${status}`, (error ? 'failed' : 'answered') === status, error ?? 'answered')
+  if (expect.error) {
+    check(`error matches /${expect.error}/`, !!error && new RegExp(expect.error, 'i').test(error), error ?? 'no error')
+  }
+  return [...checks, ...checkDuration(expect, durationMs)]
+}
+
+function checkDuration(expect: EvalExpectations, durationMs: number): EvalCheck[] {
+  if (expect.maxDurationMs === undefined) return []
+  const passed = durationMs <= expect.maxDurationMs
+  return [{ name: `finished within ${expect.maxDurationMs}ms`, passed, detail: passed ? undefined : `took ${durationMs}ms` }]
+}
+
+export async function checkExpectations(expect: EvalExpectations, report: RunReport, sqlite: BetterSqlite3.Database): Promise<EvalCheck[]> {
+  const checks: EvalCheck[] = []
+  const check = (name: string, passed: boolean, detail?: string) => checks.push({ name, passed, detail: passed ? undefined : detail })
+
+  if (expect.status) {
+    check(`status is ${expect.status}`, report.status === expect.status, `got ${report.status}${report.errors.length ? `: ${report.errors.join('; ')}` : ''}`)
+  }
+  if (expect.exitCode !== undefined) {
+    check(`exit code is ${expect.exitCode}`, report.exitCode === expect.exitCode, `got ${report.exitCode}`)
+  }
+  if (expect.error) {
+    check(`error matches /${expect.error}/`, report.errors.some(error => new RegExp(expect.error!, 'i').test(error)), `errors: ${report.errors.join('; ') || 'none'}`)
+  }
+
+  for (const table of expect.tables) {
+    check(`table ${table} exists`, tableExists(sqlite, table), 'not found')
+  }
+  for (const table of expect.missingTables) {
+    check(`table ${table} does not exist`, !tableExists(sqlite, table), 'it exists')
+  }
+  for (const [table, count] of Object.entries(expect.rowCounts)) {
+    const actual = tableExists(sqlite, table) ? countRows(sqlite, table) : null
+    check(`${table} has ${count} row(s)`, actual === count, actual === null ? 'table not found' : `got ${actual}`)
+  }
+  for (const [table, expectedRows] of Object.entries(expect.rows)) {
+    const rows = tableExists(sqlite, table) ? sqlite.prepare(`SELECT * FROM "${table}"`).all() as Record<string, unknown>[] : []
+    for (const expected of expectedRows) {
+      check(`${table} has a row matching ${JSON.stringify(expected)}`, rows.some(row => matches(row, expected)), `${rows.length} row(s), none match`)
+    }
+  }
+  for (const file of expect.files) {
+    check(`file ${file} was written`, fs.existsSync(file), 'not found')
+  }
+  for (const route of expect.routes) {
+    checks.push(...await checkRoute(route))
+  }
+  return checks
+}
+
+// Import the generated route and call its GET handler in-process
+async function checkRoute(expect: RouteExpectation): Promise<EvalCheck[]> {
+  const resolved = resolveRouteFile(expect.path)
+  if (!resolved) {
+    return [{ name: `route ${expect.path} exists`, passed: false, detail: `no route file under ${API_ROOT}` }]
+  }
+  const checks: EvalCheck[] = [{ name: `route ${expect.path} exists`, passed: true }]
+
+  let status: number
+  let body: unknown
+  try {
+    ({ status, body } = await callRoute(resolved.file, expect.path, resolved.params))
+  } catch (error) {
+    return [...checks, { name: `GET ${expect.path} responds`, passed: false, detail: (error as Error).message }]
+  }
+
+  checks.push({ name: `GET ${expect.path} returns ${expect.status}`, passed: status === expect.status, detail: `got ${status}: ${JSON.stringify(body).slice(0, 200)}` })
+  if (expect.count !== undefined) {
+    const count = Array.isArray(body) ? body.length : null
+    checks.push({ name: `GET ${expect.path} returns ${expect.count} item(s)`, passed: count === expect.count, detail: count === null ? 'the response is not a list' : `got ${count}` })
+  }
+  if (expect.shape) {
+    const items = Array.isArray(body) ? body : [body]
+    const problems = items.flatMap((item, index) => shapeProblems(item, expect.shape!).map(problem => `item ${index}: ${problem}`))
+    checks.push({ name: `GET ${expect.path} matches the expected shape`, passed: problems.length === 0, detail: problems.slice(0, 5).join('; ') })
+  }
+  return checks.map(check => check.passed ? { name: check.name, passed: true } : check)
+}
+
+function matches(row: Record<string, unknown>, expected: Record<string, unknown>): boolean {
+  return Object.entries(expected).every(([column, value]) => row[column] === value)
+}
+
+function isValueType(type: string): boolean {
+  return type.split('|').every(part => (VALUE_TYPES as readonly string[]).includes(part))
+}
+
+function countRows(sqlite: BetterSqlite3.Database, table: string): number {
+  return (sqlite.prepare(`SELECT count(*) AS count FROM "${table}"`).get() as { count: number }).count
+}
+
+// Run a scenario file with `command` (which must end up calling runScenario and printing the
+// EvalResult as JSON on stdout) inside a fresh temp dir. node_modules is linked in so generated
+// routes can import their packages; their "@/" imports resolve through the project's tsconfig.
+export function runIsolated(
+  file: string,
+  command: string[],
+  { keep = false, timeoutMs = DEFAULT_SCENARIO_TIMEOUT_MS }: { keep?: boolean; timeoutMs?: number } = {}
+): EvalResult {
+  const startedAt = Date.now()
+  const workdir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-eval-'))
+  fs.symlinkSync(path.resolve('node_modules'), path.join(workdir, 'node_modules'), 'dir')
+
+  const child = spawnSync(process.execPath, [...command, path.resolve(file)], {
+    cwd: workdir,
+    env: { ...process.env, TSX_TSCONFIG_PATH: path.resolve('tsconfig.json') },
+    encoding: 'utf8',
+    timeout: timeoutMs,
+    maxBuffer: 64 * 1024 * 1024
+  })
+  fs.writeFileSync(path.join(workdir, 'agent.log'), child.stderr ?? '')
+
+  let result: EvalResult
+  try {
+    result = { ...JSON.parse(child.stdout.trim().split('\n').at(-1) ?? '') as EvalResult, file }
+  } catch {
+    const reason = child.error?.message
+      ?? (child.signal ? `killed by ${child.signal}` : `exited with code ${child.status} without a result`)
+    result = { scenario: path.basename(file, '.json'), file, passed: false, checks: [], error: reason, durationMs: 0 }
+  }
+  result.durationMs = Date.now() - startedAt
+
+  if (keep || !result.passed) {
+    result.workdir = workdir
+  } else {
+    fs.rmSync(workdir, { recursive: true, force: true })
+  }
+  return result
+}
+
+export function formatEvalResult(result: EvalResult): string {
+  const lines = [`${result.passed ? '✅' : '❌'} ${result.scenario} (${(result.durationMs / 1000).toFixed(1)}s)`]
+  if (result.error) lines.push(`   ├─ ${result.error}`)
+  const shown = result.passed ? [] : result.checks.filter(check => !check.passed)
+  shown.forEach(check => lines.push(`   ├─ ${check.name}: ${check.detail ?? 'failed'}`))
+  if (result.workdir) lines.push(`   └─ Workdir: ${result.workdir} (agent.log has the run output)`)
+  return lines.join('\n')
+}
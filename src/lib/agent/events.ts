@@ -0,0 +1,77 @@
+// Progress of an agent run as structured events. The CLI renders them as the familiar console
+// tree; the web UI streams them to the browser as server-sent events.
+
+export type AgentStep = 'run' | 'analyze' | 'operations' | 'routes' | 'frontend' | 'dry-run' | 'apply' | 'undo'
+
+export type AgentEventStatus = 'started' | 'progress' | 'done' | 'skipped' | 'warning' | 'failed'
+
+export interface AgentEvent {
+  step: AgentStep
+  status: AgentEventStatus
+  detail?: string
+}
+
+export type AgentReporter = (event: AgentEvent) => void
+
+export const STEP_TITLES: Record<AgentStep, string> = {
+  run: 'Database agent',
+  analyze: 'Analyzing query',
+  operations: 'Planning database operations',
+  routes: 'Preparing API routes',
+  frontend: 'Updating frontend to use database',
+  'dry-run': 'Dry run: planned changes (nothing has been applied)',
+  apply: 'Applying changes',
+  undo: 'Undoing the last change'
+}
+
+const STEP_ICONS: Record<AgentStep, string> = {
+  run: '🤖',
+  analyze: '🧠',
+  operations: '🔧',
+  routes: '🛣️ ',
+  frontend: '🎨',
+  'dry-run': '📋',
+  apply: '💾',
+  undo: '↩️ '
+}
+
+export const silentReporter: AgentReporter = () => {}
+
+// Numbered steps with their details as a tree underneath, e.g.
+//   2. 🔧 Planning database operations...
+//      ├─ Verifying table tracks exists...
+export function createConsoleReporter(): AgentReporter {
+  let stepNumber = 0
+
+  return ({ step, status, detail }) => {
+    if (step === 'run') {
+      if (status === 'started') {
+        stepNumber = 0
+        console.log(`\n🤖 Database Agent Processing: ${detail}`)
+      } else if (status === 'done') {
+        console.log('\n✅ Agent completed successfully!')
+      } else if (status === 'failed') {
+        console.error(`\n❌ Agent failed: ${detail}`)
+      } else if (detail) {
+        console.log(`🗂️  ${detail}`)
+      }
+      return
+    }
+
+    if (status === 'started') {
+      stepNumber++
+      const ellipsis = step === 'dry-run' ? '' : '...'
+      console.log(`\n${stepNumber}. ${STEP_ICONS[step]} ${STEP_TITLES[step]}${ellipsis}`)
+    }
+    if (!detail) return
+
+    // Multi-line details (a formatted changeset) are already laid out
+    if (detail.includes('\n')) {
+      console.log(detail)
+      return
+    }
+    const glyph = status === 'done' || status === 'skipped' ? '└─' : '├─'
+    const mark = status === 'warning' ? '⚠️  ' : status === 'failed' ? '❌ ' : ''
+    console.log(`   ${glyph} ${mark}${detail}`)
+  }
+}
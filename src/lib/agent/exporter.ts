@@ -0,0 +1,88 @@
+// Exports tables as JSON, NDJSON or CSV files the importer reads back, or as an SQL dump.
+// JSON and CSV rows use the Drizzle property names, with timestamps as ISO strings; the SQL
+// dump keeps the stored values exactly.
+
+import type BetterSqlite3 from 'better-sqlite3'
+import { getSchemaSnapshot, tableExists, withForeignKeyDependencies } from '../db/ddl'
+import { getTableColumns, isTimestampColumn } from '../db/tables'
+
+export type ExportFormat = 'json' | 'ndjson' | 'csv' | 'sql'
+
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'ndjson', 'csv', 'sql']
+
+export interface TableRows {
+  table: string
+  rows: Record<string, unknown>[] // as stored, keyed by SQL column name
+}
+
+// Parents before the tables that reference them, so files can be imported in this order
+export async function exportOrder(tables: string[]): Promise<string[]> {
+  return withForeignKeyDependencies(await getSchemaSnapshot(), tables).filter(table => tables.includes(table))
+}
+
+// `where` is an SQL condition; pass a read-only connection, since it is run as written
+export function readTableRows(sqlite: BetterSqlite3.Database, table: string, { where }: { where?: string } = {}): TableRows {
+  if (!tableExists(sqlite, table)) {
+    throw new Error(`Table ${table} does not exist in the database`)
+  }
+  const statement = sqlite.prepare(`SELECT * FROM "${table}"${where ? ` WHERE (${where})` : ''} ORDER BY rowid`)
+  if (!statement.reader) {
+    throw new Error('--where must be a condition, e.g. "artist = \'Drake\'"')
+  }
+  return { table, rows: statement.all() as Record<string, unknown>[] }
+}
+
+// Stored row -> what the importer expects: property names, timestamps as ISO strings
+export function toPortableRow(table: string, row: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(getTableColumns(table)).map(([property, column]) => {
+      const value = row[column.name]
+      if (value === null || value === undefined) return [property, null]
+      if (isTimestampColumn(column) || column.dataType === 'date') {
+        return [property, (column.mapFromDriverValue(value) as Date).toISOString()]
+      }
+      return [property, column.dataType === 'json' ? column.mapFromDriverValue(value) : value]
+    })
+  )
+}
+
+export function formatTableRows(format: Exclude<ExportFormat, 'sql'>, { table, rows }: TableRows): string {
+  const portable = rows.map(row => toPortableRow(table, row))
+  if (format === 'json') return JSON.stringify(portable, null, 2) + '\n'
+  if (format === 'ndjson') return portable.map(row => JSON.stringify(row)).join('\n') + (portable.length ? '\n' : '')
+
+  const header = Object.keys(getTableColumns(table))
+  const lines = [header, ...portable.map(row => header.map(property => row[property]))]
+  return lines.map(values => values.map(csvField).join(',')).join('\n') + '\n'
+}
+
+// INSERT statements in one transaction; the tables must already exist where the dump is loaded
+export function formatSqlDump(tables: TableRows[]): string {
+  const lines = [
+    `-- Exported by the database agent on ${new Date().toISOString()}`,
+    '-- Load it into a database that already has these tables: sqlite3 sqlite.db < dump.sql',
+    'BEGIN TRANSACTION;'
+  ]
+  for (const { table, rows } of tables) {
+    lines.push('', `-- ${table}: ${rows.length} row(s)`)
+    for (const row of rows) {
+      const columns = Object.keys(row)
+      lines.push(`INSERT INTO "${table}" (${columns.map(column => `"${column}"`).join(', ')}) VALUES (${columns.map(column => sqlLiteral(row[column])).join(', ')});`)
+    }
+  }
+  lines.push('COMMIT;')
+  return lines.join('\n') + '\n'
+}
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function sqlLiteral(value: unknown): string {
+  if (value === null || value === undefined) return 'NULL'
+  if (typeof value === 'number' || typeof value === 'bigint') return String(value)
+  if (Buffer.isBuffer(value)) return `X'${value.toString('hex')}'`
+  return `'${String(value).replace(/'/g, "''")}'`
+}
@@ -0,0 +1,173 @@
+// Generates a typed data hook and a MusicCard shelf for a table's API route, and the
+// registry that puts every generated shelf on the home view.
+
+import fs from 'fs'
+import path from 'path'
+import { responseFields, routeSegment, type RouteSpec } from './route-generator'
+
+export const SECTIONS_DIR = 'src/components/generated'
+export const HOOKS_DIR = 'src/hooks/generated'
+export const SECTION_REGISTRY = path.join(SECTIONS_DIR, 'index.ts')
+
+const SECTION_SUFFIX = '-section.tsx'
+
+// Which response fields fill the card, in order of preference
+const TITLE_FIELDS = ['title', 'name']
+const SUBTITLE_FIELDS = ['artist', 'description', 'author', 'host', 'publisher']
+const IMAGE_FIELDS = ['image', 'albumArt', 'artwork', 'cover']
+
+export function sectionFilePath(spec: RouteSpec): string {
+  return path.join(SECTIONS_DIR, `${routeSegment(spec)}${SECTION_SUFFIX}`)
+}
+
+export function hookFilePath(spec: RouteSpec): string {
+  return path.join(HOOKS_DIR, `use-${routeSegment(spec)}.ts`)
+}
+
+// Sections already on disk, so the registry keeps them when another one is added
+export function listSectionIds(dir = SECTIONS_DIR): string[] {
+  if (!fs.existsSync(dir)) return []
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith(SECTION_SUFFIX))
+    .map(file => file.slice(0, -SECTION_SUFFIX.length))
+}
+
+export function generateHook(spec: RouteSpec): string {
+  const name = pascalCase(routeSegment(spec))
+  const fields = Object.entries(responseFields(spec)).map(([field, type]) => `  ${field}: ${type}`)
+
+  return `import { useCallback, useEffect, useState } from "react"
+import { useShelfRefresh } from "@/hooks/use-shelf-refresh"
+
+// Generated by the database agent for /api/${routeSegment(spec)}
+
+export interface ${name}Item {
+${fields.join('\n')}
+}
+
+export function use${name}() {
+  const [data, setData] = useState<${name}Item[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const response = await fetch("/api/${routeSegment(spec)}")
+      if (!response.ok) {
+        throw new Error(\`Request failed with status \${response.status}\`)
+      }
+      setData(await response.json())
+    } catch (err) {
+      console.error("Error fetching ${routeSegment(spec)}:", err)
+      setError("Failed to load data from database")
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+  useShelfRefresh(refresh)
+
+  return { data, loading, error, refresh }
+}
+`
+}
+
+export function generateSection(spec: RouteSpec): string {
+  const segment = routeSegment(spec)
+  const name = pascalCase(segment)
+  const fields = responseFields(spec)
+  const stringFields = Object.keys(fields).filter(field => fields[field] === 'string')
+  const pick = (preferred: string[]) => preferred.find(field => field in fields)
+
+  const title = pick(TITLE_FIELDS) ?? stringFields[0] ?? Object.keys(fields)[0]
+  const subtitle = pick(SUBTITLE_FIELDS) ?? stringFields.find(field => field !== title && field !== 'id')
+  const image = pick(IMAGE_FIELDS)
+  const heading = capitalize(spec.label ?? spec.table.replace(/_/g, ' '))
+  const text = (field: string | undefined, fallback: string) =>
+    field ? (fields[field] === 'string' ? `item.${field}` : `String(item.${field} ?? "")`) : fallback
+
+  return `"use client"
+
+import { MusicCard } from "@/components/music-card"
+import { use${name} } from "@/hooks/generated/use-${segment}"
+import type { ShelfSectionProps } from "@/types"
+
+// Generated by the database agent from the ${spec.table} table
+
+export default function ${name}Section({ onPlayTrack }: ShelfSectionProps) {
+  const { data, loading, error, refresh } = use${name}()
+
+  return (
+    <section className="px-6 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <h2 className="text-xl font-bold text-[var(--color-text-primary)]">${heading}</h2>
+          <span className="px-2 py-1 bg-green-600 text-white text-xs rounded">
+            {data.length} from DB
+          </span>
+        </div>
+        <button
+          onClick={refresh}
+          className="text-[var(--color-text-secondary)] text-sm font-medium hover:text-[var(--color-text-primary)] transition-colors"
+        >
+          Refresh
+        </button>
+      </div>
+      {loading ? (
+        <p className="text-[var(--color-text-secondary)] text-sm">Loading ${heading.toLowerCase()}...</p>
+      ) : error ? (
+        <p className="text-red-500 text-sm">❌ {error}</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 gap-4">
+          {data.map((item, index) => (
+            <MusicCard
+              key={index}
+              title={${text(title, '""')}}
+              artist={${text(subtitle, '""')}}
+              image={${image ? `item.${image} ?? undefined` : 'undefined'}}
+              size="medium"
+              onPlay={() => onPlayTrack?.({
+                id: ${'id' in fields ? 'String(item.id)' : 'String(index)'},
+                title: ${text(title, '""')},
+                artist: ${text(subtitle, '""')},
+                album: ${'album' in fields ? text('album', '""') : text(title, '""')},
+                image: ${image ? `item.${image} ?? "/api/placeholder/56/56"` : '"/api/placeholder/56/56"'},
+                duration: ${fields.duration === 'number' ? 'item.duration' : '0'}
+              })}
+            />
+          ))}
+        </div>
+      )}
+    </section>
+  )
+}
+`
+}
+
+export function generateRegistry(sectionIds: string[]): string {
+  const ids = [...new Set(sectionIds)].sort()
+  const imports = ids.map(id => `import ${pascalCase(id)}Section from "./${id}-section"`)
+  const entries = ids.map(id => `  { id: "${id}", Section: ${pascalCase(id)}Section }`)
+
+  return `import type { ComponentType } from "react"
+import type { ShelfSectionProps } from "@/types"
+${imports.join('\n')}${imports.length ? '\n' : ''}
+// Generated by the database agent: every database-backed shelf it has added to the home view.
+// Rebuilt from the *-section.tsx files in this folder on each run; edit those, not this list.
+
+export const generatedSections: { id: string; Section: ComponentType<ShelfSectionProps> }[] = [${entries.length ? `\n${entries.join(',\n')}\n` : ''}]
+`
+}
+
+function pascalCase(segment: string): string {
+  return segment.split(/[-_]/).filter(Boolean).map(capitalize).join('')
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
@@ -0,0 +1,445 @@
+// Imports catalog rows from CSV, JSON or NDJSON files into a schema table: source fields are
+// mapped onto columns, values coerced to the column types, and rows upserted by id or by a
+// natural key in one transaction. Playlists and albums can list their tracks too.
+
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { getTableName, inArray, sql } from 'drizzle-orm'
+import { parse } from 'csv-parse/sync'
+import type BetterSqlite3 from 'better-sqlite3'
+import type { Database } from '../db'
+import { getTableConfig, type SQLiteColumn } from 'drizzle-orm/sqlite-core'
+import { getSchemaTable, getTableColumns, isTimestampColumn, schemaTables } from '../db/tables'
+import { tableExists } from '../db/ddl'
+import { RUN_LOG_TABLES } from './run-log'
+import type { PolicyAction } from './policy'
+
+export type ImportFormat = 'csv' | 'json' | 'ndjson'
+
+export const IMPORT_FORMATS: ImportFormat[] = ['csv', 'json', 'ndjson']
+export const DEFAULT_IMPORT_BATCH_SIZE = 500
+
+// Column property -> source field, e.g. { albumArt: 'cover_url' }
+export type ColumnMapping = Record<string, string>
+
+// Tables whose rows group tracks. A `tracks` field in the file lists each row's tracks in order
+// and becomes its link rows; a `total` column is worked out from the tracks' durations.
+export interface TrackCollection {
+  linkTable: string
+  owner: string // link column holding the row's id
+  order: string // link column holding the track's place, from 1
+  total?: string
+}
+
+export const TRACK_COLLECTIONS: Record<string, TrackCollection> = {
+  made_for_you_playlists: { linkTable: 'playlist_tracks', owner: 'playlistId', order: 'position' },
+  popular_albums: { linkTable: 'album_tracks', owner: 'albumId', order: 'trackNumber', total: 'duration' }
+}
+
+export interface SourceRecord {
+  line: number // line in the file (CSV and NDJSON) or 1-based position in a JSON array
+  values: Record<string, unknown>
+}
+
+export interface RowError {
+  line: number
+  errors: string[]
+}
+
+export interface PreparedRow {
+  line: number
+  row: Record<string, unknown>
+  exists: boolean // a row with the same key is already in the table, so this one updates it
+  tracks?: string[] // ids of the row's tracks in order, when the file lists them
+}
+
+export interface ImportPlan {
+  table: string
+  mapping: ColumnMapping
+  key: string[] // column properties rows are matched on
+  rows: PreparedRow[]
+  invalid: RowError[]
+  total: number
+  linkTable?: string // where the track listings go, when the file has them
+}
+
+export interface ImportResult {
+  inserted: number
+  updated: number
+  batches: number
+  linked: number // link rows written for track listings
+}
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ImportError'
+  }
+}
+
+export function importableTables(): string[] {
+  return Object.keys(schemaTables).filter(table => !RUN_LOG_TABLES.includes(table))
+}
+
+export function detectFormat(file: string): ImportFormat {
+  const extension = path.extname(file).slice(1).toLowerCase()
+  if (extension === 'jsonl') return 'ndjson'
+  if ((IMPORT_FORMATS as string[]).includes(extension)) return extension as ImportFormat
+  throw new ImportError(`Cannot tell the format of ${file} from its extension; pass --format ${IMPORT_FORMATS.join('|')}`)
+}
+
+export function readSourceRecords(file: string, format: ImportFormat): { records: SourceRecord[]; errors: RowError[] } {
+  if (!fs.existsSync(file)) throw new ImportError(`Import file not found: ${file}`)
+  const content = fs.readFileSync(file, 'utf8')
+  const records: SourceRecord[] = []
+  const errors: RowError[] = []
+
+  if (format === 'csv') {
+    try {
+      const rows = parse(content, { columns: true, bom: true, trim: true, skip_empty_lines: true, info: true }) as {
+        record: Record<string, string>
+        info: { lines: number }
+      }[]
+      rows.forEach(({ record, info }) => records.push({ line: info.lines, values: record }))
+    } catch (error) {
+      throw new ImportError(`Invalid CSV in ${file}: ${(error as Error).message}`)
+    }
+  } else if (format === 'json') {
+    let json: unknown
+    try {
+      json = JSON.parse(content)
+    } catch (error) {
+      throw new ImportError(`Invalid JSON in ${file}: ${(error as Error).message}`)
+    }
+    if (!Array.isArray(json)) throw new ImportError(`${file} must contain a JSON array of objects`)
+    json.forEach((value, index) => isRecord(value)
+      ? records.push({ line: index + 1, values: value })
+      : errors.push({ line: index + 1, errors: ['not an object'] }))
+  } else {
+    content.split('\n').forEach((text, index) => {
+      if (!text.trim()) return
+      try {
+        const value = JSON.parse(text)
+        if (isRecord(value)) records.push({ line: index + 1, values: value })
+        else errors.push({ line: index + 1, errors: ['not an object'] })
+      } catch (error) {
+        errors.push({ line: index + 1, errors: [`invalid JSON (${(error as Error).message})`] })
+      }
+    })
+  }
+  return { records, errors }
+}
+
+// Every field that appears in the file, in first-seen order
+export function sourceFields(records: SourceRecord[]): string[] {
+  return [...new Set(records.flatMap(record => Object.keys(record.values)))]
+}
+
+// Match fields to columns by property or SQL name, ignoring case, spaces, dashes and underscores
+export function suggestMapping(table: string, fields: string[]): ColumnMapping {
+  const normalize = (name: string) => name.toLowerCase().replace(/[\s_-]/g, '')
+  return Object.fromEntries(
+    Object.entries(getTableColumns(table)).flatMap(([property, column]) => {
+      const field = fields.find(field => [normalize(property), normalize(column.name)].includes(normalize(field)))
+      return field ? [[property, field]] : []
+    })
+  )
+}
+
+// The field listing each row's tracks, when the table groups tracks and the file has one
+export function trackListField(table: string, fields: string[]): string | undefined {
+  return TRACK_COLLECTIONS[table] ? fields.find(field => field.toLowerCase() === 'tracks') : undefined
+}
+
+export function loadMapping(file: string, table: string): ColumnMapping {
+  let json: unknown
+  try {
+    json = JSON.parse(fs.readFileSync(file, 'utf8'))
+  } catch (error) {
+    throw new ImportError(`Could not read mapping ${file}: ${(error as Error).message}`)
+  }
+  if (!isRecord(json) || Object.values(json).some(value => typeof value !== 'string')) {
+    throw new ImportError(`Mapping ${file} must be an object of column -> source field names`)
+  }
+  validateMapping(json as ColumnMapping, table)
+  return json as ColumnMapping
+}
+
+export function validateMapping(mapping: ColumnMapping, table: string): void {
+  const columns = getTableColumns(table)
+  const unknown = Object.keys(mapping).filter(property => !columns[property])
+  if (unknown.length) {
+    throw new ImportError(`Unknown column(s) for ${table}: ${unknown.join(', ')} (columns: ${Object.keys(columns).join(', ')})`)
+  }
+}
+
+// Map, coerce and check every record, and work out which ones update existing rows
+export function prepareImport(
+  sqlite: BetterSqlite3.Database,
+  records: SourceRecord[],
+  { table, mapping, key }: { table: string; mapping: ColumnMapping; key?: string[] }
+): ImportPlan {
+  const columns = getTableColumns(table)
+  const primaryKey = Object.keys(columns).find(property => columns[property].primary)
+  if (!primaryKey) throw new ImportError(`Table ${table} has no single-column primary key to upsert on`)
+
+  const keyColumns = key?.length ? key : [primaryKey]
+  const unknownKeys = keyColumns.filter(property => !columns[property])
+  if (unknownKeys.length) throw new ImportError(`Unknown key column(s) for ${table}: ${unknownKeys.join(', ')}`)
+  const unmappedKeys = keyColumns.filter(property => !mapping[property])
+  if (unmappedKeys.length) throw new ImportError(`Key column(s) ${unmappedKeys.join(', ')} are not mapped to a source field`)
+
+  const lookup = tableExists(sqlite, table)
+    ? sqlite.prepare(`SELECT "${columns[primaryKey].name}" AS id FROM "${table}" WHERE ${keyColumns.map(property => `"${columns[property].name}" IS ?`).join(' AND ')}`)
+    : null
+  const collection = TRACK_COLLECTIONS[table]
+  const tracksField = trackListField(table, sourceFields(records))
+  const trackLookup = tracksField && tableExists(sqlite, 'tracks') ? sqlite.prepare('SELECT duration FROM tracks WHERE id = ?') : null
+  const references = foreignKeyChecks(sqlite, table)
+  const seen = new Map<string, number>()
+  const plan: ImportPlan = {
+    table,
+    mapping,
+    key: keyColumns,
+    rows: [],
+    invalid: [],
+    total: records.length,
+    linkTable: tracksField && collection.linkTable
+  }
+
+  for (const record of records) {
+    const errors: string[] = []
+    const invalid: string[] = [] // columns whose value could not be coerced
+    const row: Record<string, unknown> = {}
+
+    for (const [property, field] of Object.entries(mapping)) {
+      const raw = record.values[field]
+      if (raw === undefined || raw === null || raw === '') continue
+      try {
+        row[property] = coerceValue(property, columns[property], raw)
+      } catch (error) {
+        errors.push(`${property}: ${(error as Error).message}`)
+        invalid.push(property)
+      }
+    }
+
+    let listed: string[] | undefined
+    const tracksValue = tracksField ? record.values[tracksField] : undefined
+    if (tracksValue !== undefined && tracksValue !== null && tracksValue !== '') {
+      try {
+        listed = parseTrackList(tracksValue)
+        const durations = listed.map(id => (trackLookup?.get(id) as { duration: number } | undefined)?.duration)
+        const unknown = listed.filter((_, index) => durations[index] === undefined)
+        if (unknown.length) throw new Error(`unknown track id(s) ${unknown.join(', ')}`)
+        if (collection.total) row[collection.total] = durations.reduce<number>((sum, duration) => sum + (duration ?? 0), 0)
+      } catch (error) {
+        errors.push(`tracks: ${(error as Error).message}`)
+        if (collection.total) invalid.push(collection.total)
+      }
+    }
+
+    const missingKey = keyColumns.filter(property => row[property] === undefined && !invalid.includes(property))
+    if (missingKey.length) errors.push(`missing ${missingKey.join(', ')} (the upsert key)`)
+    const missing = Object.entries(columns)
+      .filter(([property, column]) => column.notNull && !column.hasDefault && row[property] === undefined && !invalid.includes(property))
+      .map(([property]) => property)
+      .filter(property => property !== primaryKey && !keyColumns.includes(property))
+    if (missing.length) errors.push(`missing required ${missing.join(', ')}`)
+
+    for (const reference of references) {
+      if (row[reference.property] === undefined) continue
+      const value = columns[reference.property].mapToDriverValue(row[reference.property])
+      if (!reference.lookup?.get(value) && !reference.earlier.has(value)) {
+        errors.push(`${reference.property}: no ${reference.table} row has ${reference.column} ${JSON.stringify(value)}`)
+      }
+    }
+
+    if (!errors.length) {
+      const keyValues = keyColumns.map(property => columns[property].mapToDriverValue(row[property]))
+      const identity = JSON.stringify(keyValues)
+      if (seen.has(identity)) {
+        errors.push(`same ${keyColumns.join(', ')} as line ${seen.get(identity)}`)
+      } else {
+        seen.set(identity, record.line)
+        const existing = lookup?.get(...keyValues) as { id: unknown } | undefined
+        if (existing) row[primaryKey] = existing.id
+        else if (row[primaryKey] === undefined && columns[primaryKey].dataType === 'string') row[primaryKey] = crypto.randomUUID()
+        plan.rows.push({ line: record.line, row, exists: !!existing, ...(listed && { tracks: listed }) })
+        references.filter(reference => reference.source).forEach(reference =>
+          reference.earlier.add(columns[reference.source!].mapToDriverValue(row[reference.source!])))
+      }
+    }
+    if (errors.length) plan.invalid.push({ line: record.line, errors })
+  }
+  return plan
+}
+
+// A row's foreign keys must point at a stored row or, for a table that references itself, at a
+// row earlier in the same file; otherwise the whole import would fail on the constraint
+interface ForeignKeyCheck {
+  property: string
+  table: string
+  column: string
+  lookup: BetterSqlite3.Statement | null
+  source?: string // property of the referenced column, when the table references itself
+  earlier: Set<unknown>
+}
+
+function foreignKeyChecks(sqlite: BetterSqlite3.Database, table: string): ForeignKeyCheck[] {
+  const columns = getTableColumns(table)
+  return getTableConfig(getSchemaTable(table)).foreignKeys.flatMap(foreignKey => {
+    const reference = foreignKey.reference()
+    if (reference.columns.length !== 1) return []
+    const property = Object.keys(columns).find(key => columns[key] === reference.columns[0])!
+    const target = getTableName(reference.foreignTable)
+    const column = reference.foreignColumns[0].name
+    return [{
+      property,
+      table: target,
+      column,
+      lookup: tableExists(sqlite, target) ? sqlite.prepare(`SELECT 1 FROM "${target}" WHERE "${column}" = ?`) : null,
+      source: target === table ? Object.keys(columns).find(key => columns[key].name === column) : undefined,
+      earlier: new Set<unknown>()
+    }]
+  })
+}
+
+// What running the plan changes, for the agent policy. Listed tracks replace a row's links.
+export function importActions(sqlite: BetterSqlite3.Database, plan: ImportPlan): PolicyAction[] {
+  const tables = plan.linkTable ? [plan.table, plan.linkTable] : [plan.table]
+  const actions: PolicyAction[] = tables.filter(table => !tableExists(sqlite, table)).map(table => ({ operation: 'ddl', table }))
+  if (plan.rows.some(row => !row.exists)) actions.push({ operation: 'insert', table: plan.table })
+  if (plan.rows.some(row => row.exists)) actions.push({ operation: 'update', table: plan.table })
+  if (plan.linkTable && plan.rows.some(row => row.tracks)) {
+    actions.push({ operation: 'delete', table: plan.linkTable }, { operation: 'insert', table: plan.linkTable })
+  }
+  return actions
+}
+
+// All batches in one transaction: a failing batch (e.g. a foreign key) leaves the table as it was
+export function runImport(
+  db: Database,
+  plan: ImportPlan,
+  { batchSize = DEFAULT_IMPORT_BATCH_SIZE }: { batchSize?: number } = {}
+): ImportResult {
+  const table = getSchemaTable(plan.table)
+  const columns = getTableColumns(plan.table)
+  const primaryKey = Object.keys(columns).find(property => columns[property].primary)!
+  const collection = plan.linkTable ? TRACK_COLLECTIONS[plan.table] : undefined
+  // Only the mapped columns (and a total worked out from the tracks) are overwritten on update,
+  // so e.g. created_at keeps its first value
+  const updated = [...new Set([...Object.keys(plan.mapping), ...(collection?.total ? [collection.total] : [])])]
+    .filter(property => property !== primaryKey)
+  const set = Object.fromEntries(updated.map(property => [property, sql.raw(`excluded."${columns[property].name}"`)]))
+
+  const result: ImportResult = { inserted: 0, updated: 0, batches: 0, linked: 0 }
+  db.transaction(tx => {
+    for (let i = 0; i < plan.rows.length; i += batchSize) {
+      const batch = plan.rows.slice(i, i + batchSize)
+      const insert = tx.insert(table).values(batch.map(prepared => prepared.row))
+      if (updated.length) insert.onConflictDoUpdate({ target: columns[primaryKey], set }).run()
+      else insert.onConflictDoNothing().run()
+      result.batches++
+    }
+    if (collection) result.linked = replaceTrackLinks(tx, plan, collection, primaryKey, batchSize)
+  })
+  result.updated = plan.rows.filter(prepared => prepared.exists).length
+  result.inserted = plan.rows.length - result.updated
+  return result
+}
+
+// A listed row's links are replaced outright, so importing a file again never duplicates them
+function replaceTrackLinks(
+  tx: Pick<Database, 'insert' | 'delete'>,
+  plan: ImportPlan,
+  collection: TrackCollection,
+  primaryKey: string,
+  batchSize: number
+): number {
+  const link = getSchemaTable(collection.linkTable)
+  const owner = getTableColumns(collection.linkTable)[collection.owner]
+  const listed = plan.rows.filter(prepared => prepared.tracks)
+  const links = listed.flatMap(({ row, tracks }) => tracks!.map((trackId, index) => ({
+    id: `${row[primaryKey]}-${index + 1}`,
+    [collection.owner]: row[primaryKey],
+    trackId,
+    [collection.order]: index + 1
+  })))
+
+  for (let i = 0; i < listed.length; i += batchSize) {
+    tx.delete(link).where(inArray(owner, listed.slice(i, i + batchSize).map(({ row }) => row[primaryKey]))).run()
+  }
+  for (let i = 0; i < links.length; i += batchSize) {
+    tx.insert(link).values(links.slice(i, i + batchSize)).run()
+  }
+  return links.length
+}
+
+export function coerceValue(property: string, column: SQLiteColumn, value: unknown): unknown {
+  if (isTimestampColumn(column) || column.dataType === 'date') return parseTimestamp(value)
+  switch (column.dataType) {
+    case 'number':
+      return /duration/i.test(property) ? parseDuration(value) : parseNumber(value)
+    case 'boolean':
+      return parseBoolean(value)
+    case 'json':
+      return typeof value === 'string' ? JSON.parse(value) : value
+    default:
+      return typeof value === 'string' ? value : typeof value === 'object' ? JSON.stringify(value) : String(value)
+  }
+}
+
+function parseNumber(value: unknown): number {
+  const number = typeof value === 'number' ? value : Number(String(value).trim())
+  if (!Number.isFinite(number)) throw new Error(`"${value}" is not a number`)
+  return number
+}
+
+// Seconds from 215, "215", "3:35", "1:02:03", "PT3M35S" or "215000ms"
+export function parseDuration(value: unknown): number {
+  if (typeof value === 'number') return Math.round(value)
+  const text = String(value).trim()
+  if (/^\d+(\.\d+)?$/.test(text)) return Math.round(Number(text))
+  if (/^\d+ms$/i.test(text)) return Math.round(Number(text.slice(0, -2)) / 1000)
+  if (/^\d+(:\d{1,2}){1,2}$/.test(text)) {
+    return text.split(':').map(Number).reduce((total, part) => total * 60 + part, 0)
+  }
+  const iso = text.match(/^PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?$/i)
+  if (iso && text.length > 2) {
+    return Math.round(Number(iso[1] ?? 0) * 3600 + Number(iso[2] ?? 0) * 60 + Number(iso[3] ?? 0))
+  }
+  throw new Error(`"${value}" is not a duration (seconds, m:ss, h:mm:ss or PT#M#S)`)
+}
+
+// ISO dates, or Unix epochs in seconds or milliseconds
+export function parseTimestamp(value: unknown): Date {
+  const text = String(value).trim()
+  const date = /^\d+$/.test(text)
+    ? new Date(Number(text) < 1e11 ? Number(text) * 1000 : Number(text))
+    : new Date(text)
+  if (Number.isNaN(date.getTime())) throw new Error(`"${value}" is not a date`)
+  return date
+}
+
+function parseBoolean(value: unknown): boolean {
+  const text = String(value).trim().toLowerCase()
+  if (['true', '1', 'yes', 'y'].includes(text)) return true
+  if (['false', '0', 'no', 'n'].includes(text)) return false
+  throw new Error(`"${value}" is not a boolean`)
+}
+
+// A JSON array of ids (or of track objects with an id), or ids separated by ; or | as in CSV
+function parseTrackList(value: unknown): string[] {
+  const list = typeof value === 'string' && value.trim().startsWith('[') ? JSON.parse(value) : value
+  const items = Array.isArray(list) ? list : String(list).split(/[;|]/).map(id => id.trim()).filter(Boolean)
+  return items.map(item => {
+    const id = isRecord(item) ? item.id : item
+    if (typeof id !== 'string' && typeof id !== 'number') throw new Error('expected track ids, or objects with an id')
+    return String(id)
+  })
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -0,0 +1,57 @@
+import type { PlanOperation, QueryPlan } from './plan'
+
+// A named unit of agent work, selected from the structured plan rather than the raw query text
+export interface Intent {
+  name: string
+  label: string
+  tables: string[] // tables this intent owns; any of them in the plan selects it
+  uses?: string[] // supporting tables it also takes care of (e.g. tracks for recently_played)
+  operations?: PlanOperation[] // defaults to every operation
+  execute(): Promise<void> // plans changes; nothing is written until the changeset is applied
+  createRoute?(): Promise<void>
+  verify?(): Promise<void> // runs after the changes are applied
+}
+
+export interface IntentResolution {
+  intents: Intent[]
+  unmatchedTables: string[]
+}
+
+// "Recently Played", "recently-played" and "recently_played" all name the same table
+export function normalizeTableName(name: string): string {
+  return name.trim().toLowerCase().replace(/[\s-]+/g, '_')
+}
+
+export class IntentRegistry {
+  private intents = new Map<string, Intent>()
+
+  register(intent: Intent): this {
+    if (this.intents.has(intent.name)) {
+      throw new Error(`Intent "${intent.name}" is already registered`)
+    }
+    this.intents.set(intent.name, intent)
+    return this
+  }
+
+  get(name: string): Intent | undefined {
+    return this.intents.get(name)
+  }
+
+  list(): Intent[] {
+    return [...this.intents.values()]
+  }
+
+  resolve(plan: Pick<QueryPlan, 'operation' | 'tables'>): IntentResolution {
+    const requested = [...new Set(plan.tables.map(normalizeTableName))]
+    const intents = this.list().filter(intent =>
+      (!intent.operations || intent.operations.includes(plan.operation)) &&
+      intent.tables.some(table => requested.includes(table))
+    )
+    const covered = new Set(intents.flatMap(intent => [...intent.tables, ...(intent.uses ?? [])]))
+
+    return {
+      intents,
+      unmatchedTables: requested.filter(table => !covered.has(table))
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { z } from 'zod'
+import type { LLMMessage, LLMProvider } from './providers'
+
+// The analysis contract the model must satisfy before the agent acts on a query
+export const queryPlanSchema = z.object({
+  operation: z.enum(['create_table', 'query_data', 'update_data', 'undo']),
+  tables: z.array(z.string().min(1)).min(1, 'at least one table is required'),
+  description: z.string().min(1),
+  needsAPIRoute: z.boolean(),
+  needsFrontendUpdate: z.boolean()
+})
+
+export type QueryPlan = z.infer<typeof queryPlanSchema>
+export type PlanOperation = QueryPlan['operation']
+
+export type PlanParseResult =
+  | { success: true; plan: QueryPlan }
+  | { success: false; errors: string[] }
+
+export class PlanValidationError extends Error {
+  constructor(readonly errors: string[], readonly attempts: number, readonly lastResponse: string) {
+    super(`Query analysis was still invalid after ${attempts} attempt(s): ${errors.join('; ')}`)
+    this.name = 'PlanValidationError'
+  }
+}
+
+export const DEFAULT_MAX_REPAIRS = 2
+
+export function parsePlan(response: string): PlanParseResult {
+  let json: unknown
+  try {
+    json = JSON.parse(extractJson(response))
+  } catch (error) {
+    return { success: false, errors: [`response is not valid JSON (${(error as Error).message})`] }
+  }
+
+  const result = queryPlanSchema.safeParse(json)
+  if (result.success) {
+    return { success: true, plan: result.data }
+  }
+  return {
+    success: false,
+    errors: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+  }
+}
+
+// Ask for a plan, feeding validation errors back to the model until it complies or retries run out
+export async function requestPlan(
+  provider: LLMProvider,
+  prompt: string,
+  { maxRepairs = DEFAULT_MAX_REPAIRS, onRepair }: { maxRepairs?: number; onRepair?: (errors: string[], attempt: number) => void } = {}
+): Promise<{ plan: QueryPlan; attempts: number; response: string; plannedAt: Date }> {
+  const messages: LLMMessage[] = [{ role: 'user', content: prompt }]
+
+  for (let attempt = 1; ; attempt++) {
+    const { text, recordedAt } = await provider.generateContent({ messages })
+    const parsed = parsePlan(text)
+
+    if (parsed.success) {
+      // A cached plan keeps the time it was first made, so a replayed run writes the same timestamps
+      return { plan: parsed.plan, attempts: attempt, response: text, plannedAt: recordedAt ? new Date(recordedAt) : new Date() }
+    }
+    if (attempt > maxRepairs) {
+      throw new PlanValidationError(parsed.errors, attempt, text)
+    }
+
+    onRepair?.(parsed.errors, attempt)
+    messages.push(
+      { role: 'assistant', content: text },
+      {
+        role: 'user',
+        content: `Your previous response did not match the required schema:\n${parsed.errors.map(error => `- ${error}`).join('\n')}\n\nRespond again with ONLY the corrected JSON object, no prose or markdown.`
+      }
+    )
+  }
+}
+
+// Models like to wrap JSON in fences or prose; keep only the outermost object
+export function extractJson(response: string): string {
+  const unfenced = response.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim()
+  const start = unfenced.indexOf('{')
+  const end = unfenced.lastIndexOf('}')
+  return start !== -1 && end > start ? unfenced.slice(start, end + 1) : unfenced
+}
@@ -0,0 +1,204 @@
+// What the agent may do in this environment, from an agent.policy file: which operations,
+// on which tables, and where it may write files. Every planned action is checked before it
+// is applied; the run log and snapshots are the agent's own bookkeeping and are never checked,
+// though restoring a snapshot is.
+
+import fs from 'fs'
+import path from 'path'
+import { z } from 'zod'
+import { MIGRATIONS_FOLDER, plannedMigrationFiles } from '../db/migrations'
+import type { Changeset } from './changeset'
+import type { PermissionLevel } from './tools'
+
+export const POLICY_OPERATIONS = ['ddl', 'insert', 'update', 'delete', 'write_file'] as const
+
+export type PolicyOperation = typeof POLICY_OPERATIONS[number]
+
+// abort: refuse the run; prompt: ask before going ahead (runs without a terminal still refuse)
+export type ViolationMode = 'abort' | 'prompt'
+
+export const DEFAULT_POLICY_FILE = 'agent.policy'
+
+export interface AgentPolicy {
+  source: string | null // file the policy was read from, null when there is none
+  environment: string
+  operations: PolicyOperation[]
+  tables: string[] // names or globs such as agent_*; * for every table
+  writePaths: string[] // globs relative to the project root, e.g. src/app/api/**
+  onViolation: ViolationMode
+}
+
+export interface PolicyAction {
+  operation: PolicyOperation
+  table?: string
+  path?: string
+}
+
+export interface PolicyViolation {
+  action: PolicyAction
+  reason: string
+}
+
+export type ConfirmViolations = (violations: PolicyViolation[]) => Promise<boolean>
+
+export class PolicyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PolicyError'
+  }
+}
+
+export class PolicyViolationError extends Error {
+  constructor(readonly violations: PolicyViolation[]) {
+    super(`Not allowed by the agent policy: ${violations.map(formatViolation).join('; ')}`)
+    this.name = 'PolicyViolationError'
+  }
+}
+
+const rulesSchema = z.object({
+  operations: z.array(z.enum(POLICY_OPERATIONS)).optional(),
+  tables: z.array(z.string().min(1)).optional(),
+  writePaths: z.array(z.string().min(1)).optional(),
+  onViolation: z.enum(['abort', 'prompt']).optional()
+}).strict()
+
+// Top-level rules apply everywhere; an entry under environments overrides them field by field
+const policyFileSchema = rulesSchema.extend({
+  environments: z.record(z.string(), rulesSchema).optional()
+}).strict()
+
+// In effect when there is no policy file
+export const OPEN_POLICY: AgentPolicy = {
+  source: null,
+  environment: 'development',
+  operations: [...POLICY_OPERATIONS],
+  tables: ['*'],
+  writePaths: ['**'],
+  onViolation: 'abort'
+}
+
+// The file comes from `file`, then AGENT_POLICY, then ./agent.policy when it exists; without
+// one everything is allowed. The environment is AGENT_ENV, then NODE_ENV, then development.
+export function loadPolicy(file?: string, env: NodeJS.ProcessEnv = process.env): AgentPolicy {
+  const source = file || env.AGENT_POLICY || (fs.existsSync(DEFAULT_POLICY_FILE) ? DEFAULT_POLICY_FILE : null)
+  const environment = env.AGENT_ENV || env.NODE_ENV || 'development'
+  if (!source) return { ...OPEN_POLICY, environment }
+  if (!fs.existsSync(source)) {
+    throw new PolicyError(`Policy file not found: ${source}`)
+  }
+
+  let json: unknown
+  try {
+    json = JSON.parse(fs.readFileSync(source, 'utf8'))
+  } catch (error) {
+    throw new PolicyError(`${source} is not valid JSON (${(error as Error).message})`)
+  }
+  const parsed = policyFileSchema.safeParse(json)
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    throw new PolicyError(`${source} is not a valid agent policy: ${issues.join('; ')}`)
+  }
+
+  const { environments, ...rules } = parsed.data
+  return { ...OPEN_POLICY, source, environment, ...rules, ...environments?.[environment] }
+}
+
+// What applying a changeset does; files it would leave as they are don't count. A migration
+// also writes its files under drizzle/, named after where it will land in the journal.
+export function changesetActions(changeset: Changeset, folder = MIGRATIONS_FOLDER): PolicyAction[] {
+  let migrations = 0
+  return changeset.changes.flatMap((change): PolicyAction[] => {
+    if (change.kind === 'migration') {
+      return [
+        ...change.tables.map((table): PolicyAction => ({ operation: 'ddl', table })),
+        ...plannedMigrationFiles(change.name, folder, migrations++).map((filePath): PolicyAction => ({ operation: 'write_file', path: filePath }))
+      ]
+    }
+    if (change.kind === 'insert') return [{ operation: 'insert', table: change.table }]
+    return change.previous === change.content ? [] : [{ operation: 'write_file', path: change.path }]
+  })
+}
+
+// A restore swaps in the whole database file and migration folder, so every table on either
+// side may be dropped, recreated or rewritten, and every migration file replaced
+export function restoreActions({ tables, files }: { tables: string[]; files: string[] }): PolicyAction[] {
+  return [
+    ...tables.flatMap(table => (['ddl', 'insert', 'update', 'delete'] as const).map((operation): PolicyAction => ({ operation, table }))),
+    ...files.map((filePath): PolicyAction => ({ operation: 'write_file', path: filePath }))
+  ]
+}
+
+export function checkActions(policy: AgentPolicy, actions: PolicyAction[]): PolicyViolation[] {
+  const seen = new Set<string>()
+  return actions.flatMap(action => {
+    const key = describeAction(action)
+    if (seen.has(key)) return []
+    seen.add(key)
+
+    const reasons: string[] = []
+    if (!policy.operations.includes(action.operation)) reasons.push(`${action.operation} is not an allowed operation`)
+    if (action.table && !policy.tables.some(table => matchesGlob(table, action.table!))) {
+      reasons.push(`${action.table} is not an allowed table`)
+    }
+    if (action.path && !isWritable(policy, action.path)) reasons.push(`${action.path} is outside the allowed write paths`)
+    return reasons.length ? [{ action, reason: reasons.join(', ') }] : []
+  })
+}
+
+// Tools the model may be offered: reading is always allowed, the rest follows the operations
+export function toolPermissions(policy: AgentPolicy): PermissionLevel[] {
+  const levels: PermissionLevel[] = ['read']
+  if (policy.operations.includes('insert')) levels.push('write')
+  if (policy.operations.includes('ddl')) levels.push('schema')
+  if (policy.operations.includes('write_file')) levels.push('files')
+  return levels
+}
+
+export function formatPolicy(policy: AgentPolicy): string {
+  if (!policy.source) {
+    return `none (${policy.environment}; everything is allowed, add ${DEFAULT_POLICY_FILE} to restrict the agent)`
+  }
+  return [
+    `${policy.source} (${policy.environment})`,
+    `operations ${policy.operations.join(', ') || '(none)'}`,
+    `tables ${policy.tables.join(', ') || '(none)'}`,
+    `write paths ${policy.writePaths.join(', ') || '(none)'}`,
+    `on violation ${policy.onViolation}`
+  ].join('; ')
+}
+
+export function formatViolation({ action, reason }: PolicyViolation): string {
+  return `${describeAction(action)} (${reason})`
+}
+
+function describeAction({ operation, table, path: filePath }: PolicyAction): string {
+  return [operation, table, filePath].filter(Boolean).join(' ')
+}
+
+// Paths that leave the project are never writable, whatever the globs say
+function isWritable(policy: AgentPolicy, filePath: string): boolean {
+  const relative = path.relative(process.cwd(), path.resolve(filePath)).split(path.sep).join('/')
+  if (relative.startsWith('../') || path.isAbsolute(relative)) return false
+  return policy.writePaths.some(glob => matchesGlob(glob, relative))
+}
+
+// * matches within one path segment, ** across segments (and **/ also matches no directory)
+function matchesGlob(glob: string, value: string): boolean {
+  let source = ''
+  for (let i = 0; i < glob.length; i++) {
+    if (glob.startsWith('**/', i)) {
+      source += '(?:.*/)?'
+      i += 2
+    } else if (glob.startsWith('**', i)) {
+      source += '.*'
+      i++
+    } else if (glob[i] === '*') {
+      source += '[^/]*'
+    } else if (glob[i] === '?') {
+      source += '[^/]'
+    } else {
+      source += glob[i].replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source}$`).test(value)
+}
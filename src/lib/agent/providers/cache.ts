@@ -0,0 +1,101 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { ProviderError, type GenerateRequest, type GenerateResponse, type LLMProvider } from './types'
+
+// record: always call the model and store the response
+// replay: only answer from the cache, a miss is an error (no network, no credentials needed)
+// auto: answer from the cache when possible, otherwise call the model and store the response
+export type CacheMode = 'off' | 'record' | 'replay' | 'auto'
+
+export const CACHE_MODES: CacheMode[] = ['off', 'record', 'replay', 'auto']
+export const DEFAULT_CACHE_DIR = '.agent-cache'
+
+export interface CacheOptions {
+  mode: CacheMode
+  dir: string
+}
+
+export interface CacheEntry {
+  key: string
+  provider: string
+  model: string
+  recordedAt: string
+  request: GenerateRequest
+  response: GenerateResponse
+}
+
+export class CacheMissError extends ProviderError {
+  constructor(readonly key: string, provider: string, excerpt: string) {
+    super(`No cached response for "${excerpt}..." (key ${key.slice(0, 12)}); record it first with --cache record or auto`, provider)
+    this.name = 'CacheMissError'
+  }
+}
+
+// Content address of a call: the same provider, model, messages, tools and parameters give the same key
+export function cacheKey(provider: string, model: string, request: GenerateRequest): string {
+  const { messages, functions, temperature } = request
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify({ provider, model, messages, functions: functions ?? [], temperature: temperature ?? null }))
+    .digest('hex')
+}
+
+// Wraps any provider with an on-disk cache of its responses, one JSON file per call.
+// `inner` can be missing when replaying, since a replay never calls the model.
+export class CachingProvider implements LLMProvider {
+  readonly name: string
+  readonly model: string
+  readonly supportsFunctionCalling: boolean
+  readonly stats = { hits: 0, misses: 0 }
+
+  constructor(
+    private inner: LLMProvider | undefined,
+    private options: CacheOptions & { name: string; model: string }
+  ) {
+    this.name = options.name
+    this.model = options.model
+    this.supportsFunctionCalling = inner?.supportsFunctionCalling ?? true
+  }
+
+  get mode(): CacheMode {
+    return this.options.mode
+  }
+
+  async generateContent(request: GenerateRequest): Promise<GenerateResponse> {
+    const key = cacheKey(this.name, this.model, request)
+    const file = path.join(this.options.dir, `${key}.json`)
+
+    if (this.options.mode !== 'record' && fs.existsSync(file)) {
+      const entry = JSON.parse(fs.readFileSync(file, 'utf8')) as CacheEntry
+      this.stats.hits++
+      return { ...entry.response, recordedAt: entry.recordedAt, cached: true }
+    }
+
+    this.stats.misses++
+    if (this.options.mode === 'replay' || !this.inner) {
+      const excerpt = request.messages.at(-1)?.content.trim().slice(0, 80).replace(/\s+/g, ' ') ?? ''
+      throw new CacheMissError(key, this.name, excerpt)
+    }
+
+    const response = await this.inner.generateContent(request)
+    const entry: CacheEntry = {
+      key,
+      provider: this.name,
+      model: this.model,
+      recordedAt: new Date().toISOString(),
+      request,
+      response
+    }
+    // Write then rename, so an interrupted run never leaves a half-written entry behind
+    fs.mkdirSync(this.options.dir, { recursive: true })
+    fs.writeFileSync(`${file}.tmp`, JSON.stringify(entry, null, 2))
+    fs.renameSync(`${file}.tmp`, file)
+    return { ...response, recordedAt: entry.recordedAt }
+  }
+
+  async *streamContent(request: GenerateRequest): AsyncIterable<string> {
+    const { text } = await this.generateContent(request)
+    yield text
+  }
+}
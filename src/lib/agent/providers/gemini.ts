@@ -0,0 +1,88 @@
+import { GoogleGenerativeAI, type Content, type FunctionDeclaration, type GenerativeModel } from '@google/generative-ai'
+import { ProviderError, type GenerateRequest, type GenerateResponse, type LLMProvider } from './types'
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash-lite-preview-06-17'
+
+export interface GeminiProviderOptions {
+  apiKey: string
+  model?: string
+}
+
+// Google Gemini provider backed by @google/generative-ai
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini'
+  readonly model: string
+  readonly supportsFunctionCalling = true
+  private client: GoogleGenerativeAI
+
+  constructor({ apiKey, model = DEFAULT_GEMINI_MODEL }: GeminiProviderOptions) {
+    if (!apiKey) {
+      throw new ProviderError('GEMINI_API_KEY is required for the gemini provider', 'gemini')
+    }
+    this.model = model
+    this.client = new GoogleGenerativeAI(apiKey)
+  }
+
+  async generateContent(request: GenerateRequest): Promise<GenerateResponse> {
+    const result = await this.getModel(request).generateContent({ contents: toContents(request) }, { signal: request.signal })
+    const response = result.response
+    const usage = response.usageMetadata
+
+    return {
+      text: response.functionCalls()?.length ? '' : response.text(),
+      functionCalls: (response.functionCalls() ?? []).map((call, index) => ({
+        id: `${call.name}-${index}`,
+        name: call.name,
+        args: (call.args ?? {}) as Record<string, unknown>
+      })),
+      usage: usage && {
+        promptTokens: usage.promptTokenCount,
+        completionTokens: usage.candidatesTokenCount,
+        totalTokens: usage.totalTokenCount
+      }
+    }
+  }
+
+  async *streamContent(request: GenerateRequest): AsyncIterable<string> {
+    const result = await this.getModel(request).generateContentStream({ contents: toContents(request) }, { signal: request.signal })
+    for await (const chunk of result.stream) {
+      yield chunk.text()
+    }
+  }
+
+  private getModel(request: GenerateRequest): GenerativeModel {
+    const system = request.messages.filter(message => message.role === 'system').map(message => message.content)
+
+    return this.client.getGenerativeModel({
+      model: this.model,
+      systemInstruction: system.length ? system.join('\n\n') : undefined,
+      generationConfig: request.temperature === undefined ? undefined : { temperature: request.temperature },
+      tools: request.functions?.length
+        ? [{ functionDeclarations: request.functions as unknown as FunctionDeclaration[] }]
+        : undefined
+    })
+  }
+}
+
+// Gemini has no system/tool roles in `contents`: tool results travel as functionResponse parts
+function toContents(request: GenerateRequest): Content[] {
+  return request.messages
+    .filter(message => message.role !== 'system')
+    .map((message): Content => {
+      if (message.role === 'tool') {
+        return {
+          role: 'function',
+          parts: [{ functionResponse: { name: message.name ?? 'tool', response: { content: message.content } } }]
+        }
+      }
+      if (message.role === 'assistant') {
+        return {
+          role: 'model',
+          parts: message.functionCalls?.length
+            ? message.functionCalls.map(call => ({ functionCall: { name: call.name, args: call.args } }))
+            : [{ text: message.content }]
+        }
+      }
+      return { role: 'user', parts: [{ text: message.content }] }
+    })
+}
@@ -0,0 +1,97 @@
+import { CachingProvider, CACHE_MODES, DEFAULT_CACHE_DIR, type CacheMode } from './cache'
+import { DEFAULT_GEMINI_MODEL, GeminiProvider } from './gemini'
+import { OpenAICompatibleProvider } from './openai-compatible'
+import { ResilientProvider, resilienceSettings } from './resilient'
+import { ScriptedProvider } from './scripted'
+import { ProviderError, type LLMProvider } from './types'
+
+export * from './types'
+export { GeminiProvider, DEFAULT_GEMINI_MODEL } from './gemini'
+export { OpenAICompatibleProvider } from './openai-compatible'
+export { ScriptedProvider, loadFixture } from './scripted'
+export type { ScriptedFixture, ScriptedResponse } from './scripted'
+export { CachingProvider, CacheMissError, cacheKey, CACHE_MODES, DEFAULT_CACHE_DIR } from './cache'
+export type { CacheEntry, CacheMode, CacheOptions } from './cache'
+export {
+  ResilientProvider,
+  ProviderTimeoutError,
+  CircuitOpenError,
+  ProviderCallError,
+  DEFAULT_RESILIENCE,
+  isRetryable,
+  resilienceSettings
+} from './resilient'
+export type { ResilienceOptions } from './resilient'
+
+export type ProviderName = 'gemini' | 'openai' | 'scripted'
+
+const PROVIDER_NAMES: ProviderName[] = ['gemini', 'openai', 'scripted']
+
+export interface ProviderOptions {
+  provider?: string
+  model?: string
+  fixtures?: string[]
+  cache?: string // off, record, replay or auto
+  cacheDir?: string
+}
+
+// Resolve a provider from CLI options first, then environment variables. Model calls get
+// timeouts, retries and a circuit breaker; the cache sits outside them, so hits skip all three.
+export function createProvider(options: ProviderOptions = {}, env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const name = (options.provider ?? env.AGENT_PROVIDER ?? 'gemini') as ProviderName
+  if (!PROVIDER_NAMES.includes(name)) {
+    throw new ProviderError(`Unknown provider "${name}" (expected gemini, openai or scripted)`, String(name))
+  }
+  const mode = (options.cache ?? env.AGENT_CACHE ?? 'off') as CacheMode
+  if (!CACHE_MODES.includes(mode)) {
+    throw new ProviderError(`Unknown cache mode "${mode}" (expected ${CACHE_MODES.join(', ')})`, name)
+  }
+  const resilience = resilienceSettings(env)
+  if (mode === 'off') return new ResilientProvider(buildProvider(name, options, env), resilience)
+
+  let inner: LLMProvider | undefined
+  try {
+    inner = new ResilientProvider(buildProvider(name, options, env), resilience)
+  } catch (error) {
+    // Replaying never calls the model, so missing credentials don't matter
+    if (!(error instanceof ProviderError) || mode !== 'replay') throw error
+  }
+  return new CachingProvider(inner, {
+    mode,
+    dir: options.cacheDir ?? env.AGENT_CACHE_DIR ?? DEFAULT_CACHE_DIR,
+    name,
+    model: inner?.model ?? options.model ?? defaultModel(name, env)
+  })
+}
+
+function defaultModel(name: ProviderName, env: NodeJS.ProcessEnv): string {
+  if (name === 'gemini') return env.GEMINI_MODEL ?? DEFAULT_GEMINI_MODEL
+  if (name === 'openai') return env.OPENAI_MODEL ?? 'local-model'
+  return 'scripted'
+}
+
+function buildProvider(name: ProviderName, options: ProviderOptions, env: NodeJS.ProcessEnv): LLMProvider {
+  switch (name) {
+    case 'gemini':
+      return new GeminiProvider({
+        apiKey: env.GEMINI_API_KEY ?? '',
+        model: options.model ?? env.GEMINI_MODEL
+      })
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        baseURL: env.OPENAI_BASE_URL,
+        apiKey: env.OPENAI_API_KEY,
+        model: options.model ?? env.OPENAI_MODEL ?? 'local-model',
+        functionCalling: env.OPENAI_FUNCTION_CALLING !== 'false'
+      })
+    case 'scripted': {
+      const fixtures = options.fixtures?.length
+        ? options.fixtures
+        : (env.AGENT_FIXTURES ?? '').split(',').filter(Boolean)
+      if (!fixtures.length) {
+        throw new ProviderError('The scripted provider needs at least one fixture file (--fixture or AGENT_FIXTURES)', 'scripted')
+      }
+      return ScriptedProvider.fromFiles(...fixtures)
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import OpenAI from 'openai'
+import type { ChatCompletionMessageParam, ChatCompletionTool } from 'openai/resources/chat/completions'
+import type { GenerateRequest, GenerateResponse, LLMProvider } from './types'
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:8080/v1'
+
+export interface OpenAICompatibleProviderOptions {
+  baseURL?: string
+  apiKey?: string
+  model: string
+  functionCalling?: boolean
+}
+
+// Any server speaking the OpenAI chat completions API (OpenAI, llama.cpp server, Ollama, vLLM...)
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai'
+  readonly model: string
+  readonly supportsFunctionCalling: boolean
+  private client: OpenAI
+
+  constructor({ baseURL = DEFAULT_OPENAI_BASE_URL, apiKey, model, functionCalling = true }: OpenAICompatibleProviderOptions) {
+    this.model = model
+    this.supportsFunctionCalling = functionCalling
+    // Local servers usually ignore the key, but the SDK refuses to start without one
+    this.client = new OpenAI({ baseURL, apiKey: apiKey || 'not-needed' })
+  }
+
+  async generateContent(request: GenerateRequest): Promise<GenerateResponse> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: toMessages(request),
+      temperature: request.temperature,
+      tools: this.toolsFor(request)
+    }, { signal: request.signal })
+    const message = completion.choices[0]?.message
+
+    return {
+      text: message?.content ?? '',
+      functionCalls: (message?.tool_calls ?? []).map(call => ({
+        id: call.id,
+        name: call.function.name,
+        args: parseArguments(call.function.arguments)
+      })),
+      usage: completion.usage && {
+        promptTokens: completion.usage.prompt_tokens,
+        completionTokens: completion.usage.completion_tokens,
+        totalTokens: completion.usage.total_tokens
+      }
+    }
+  }
+
+  async *streamContent(request: GenerateRequest): AsyncIterable<string> {
+    const stream = await this.client.chat.completions.create({
+      model: this.model,
+      messages: toMessages(request),
+      temperature: request.temperature,
+      stream: true
+    }, { signal: request.signal })
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content
+      if (delta) yield delta
+    }
+  }
+
+  private toolsFor(request: GenerateRequest): ChatCompletionTool[] | undefined {
+    if (!this.supportsFunctionCalling || !request.functions?.length) return undefined
+    return request.functions.map(fn => ({
+      type: 'function',
+      function: { name: fn.name, description: fn.description, parameters: fn.parameters }
+    }))
+  }
+}
+
+function toMessages(request: GenerateRequest): ChatCompletionMessageParam[] {
+  return request.messages.map((message): ChatCompletionMessageParam => {
+    if (message.role === 'tool') {
+      return { role: 'tool', tool_call_id: message.callId ?? message.name ?? 'tool', content: message.content }
+    }
+    if (message.role === 'assistant' && message.functionCalls?.length) {
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.functionCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.args) }
+        }))
+      }
+    }
+    return { role: message.role, content: message.content } as ChatCompletionMessageParam
+  })
+}
+
+function parseArguments(raw: string): Record<string, unknown> {
+  try {
+    return JSON.parse(raw || '{}')
+  } catch {
+    // Small local models sometimes emit broken JSON; surface it instead of crashing the call
+    return { _raw: raw }
+  }
+}
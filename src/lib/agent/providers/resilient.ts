@@ -0,0 +1,185 @@
+import { readCount } from '../../env'
+import { ProviderError, type GenerateRequest, type GenerateResponse, type LLMProvider } from './types'
+
+export interface ResilienceOptions {
+  timeoutMs: number // per attempt, 0 for no timeout
+  retries: number // extra attempts after a retryable failure
+  backoffMs: number // first retry delay, doubled for each further retry
+  maxBackoffMs: number
+  breakerThreshold: number // consecutive failed attempts that open the circuit, 0 to never open it
+  breakerCooldownMs: number // how long an open circuit refuses calls before trying one again
+}
+
+export const DEFAULT_RESILIENCE: ResilienceOptions = {
+  timeoutMs: 60_000,
+  retries: 3,
+  backoffMs: 500,
+  maxBackoffMs: 8_000,
+  breakerThreshold: 5,
+  breakerCooldownMs: 30_000
+}
+
+// Rate limits, server errors and timeouts; anything else (bad key, bad request) fails the same way twice
+const RETRYABLE_STATUS = [408, 429, 500, 502, 503, 504]
+const NETWORK_ERRORS = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'ENOTFOUND', 'EPIPE', 'UND_ERR_SOCKET']
+
+export class ProviderTimeoutError extends ProviderError {
+  constructor(provider: string, readonly timeoutMs: number) {
+    super(`${provider} did not answer within ${timeoutMs}ms`, provider)
+    this.name = 'ProviderTimeoutError'
+  }
+}
+
+export class CircuitOpenError extends ProviderError {
+  constructor(provider: string, readonly retryAt: Date) {
+    super(`${provider} failed repeatedly; not calling it again until ${retryAt.toISOString()}`, provider)
+    this.name = 'CircuitOpenError'
+  }
+}
+
+// The last error of a call that could not be completed, as a provider error
+export class ProviderCallError extends ProviderError {
+  constructor(provider: string, readonly attempts: number, cause: unknown) {
+    const reason = (cause as Error)?.message ?? String(cause)
+    super(`${provider} call failed${attempts > 1 ? ` after ${attempts} attempts` : ''}: ${reason}`, provider, statusOf(cause))
+    this.name = 'ProviderCallError'
+    this.cause = cause
+  }
+}
+
+// Each option can be overridden through its AGENT_LLM_* variable
+export function resilienceSettings(env: NodeJS.ProcessEnv = process.env): ResilienceOptions {
+  return {
+    ...DEFAULT_RESILIENCE,
+    timeoutMs: readCount(env, 'AGENT_LLM_TIMEOUT_MS', DEFAULT_RESILIENCE.timeoutMs),
+    retries: readCount(env, 'AGENT_LLM_RETRIES', DEFAULT_RESILIENCE.retries),
+    backoffMs: readCount(env, 'AGENT_LLM_BACKOFF_MS', DEFAULT_RESILIENCE.backoffMs),
+    breakerThreshold: readCount(env, 'AGENT_LLM_BREAKER_THRESHOLD', DEFAULT_RESILIENCE.breakerThreshold),
+    breakerCooldownMs: readCount(env, 'AGENT_LLM_BREAKER_COOLDOWN_MS', DEFAULT_RESILIENCE.breakerCooldownMs)
+  }
+}
+
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof ProviderTimeoutError) return true
+  if (error instanceof CircuitOpenError) return false
+  const status = statusOf(error)
+  if (status !== undefined) return RETRYABLE_STATUS.includes(status)
+
+  // fetch() failures carry the socket error as their cause, the OpenAI SDK names its own and
+  // the Gemini SDK only keeps fetch's message
+  const { code, name, message, cause } = (error ?? {}) as { code?: string; name?: string; message?: string; cause?: unknown }
+  if (name === 'APIConnectionError' || name === 'APIConnectionTimeoutError') return true
+  if (code && NETWORK_ERRORS.includes(code)) return true
+  if (message && /fetch failed|socket hang up/i.test(message)) return true
+  return cause !== undefined && cause !== error && isRetryable(cause)
+}
+
+// Wraps a provider with a timeout per attempt, retries with exponential backoff and jitter,
+// and a circuit breaker that fails fast once the provider keeps failing.
+export class ResilientProvider implements LLMProvider {
+  readonly name: string
+  readonly model: string
+  readonly supportsFunctionCalling: boolean
+  readonly stats = { calls: 0, retries: 0, failures: 0 }
+  private consecutiveFailures = 0
+  private openUntil = 0
+
+  constructor(
+    private inner: LLMProvider,
+    private options: ResilienceOptions = DEFAULT_RESILIENCE,
+    private sleep: (ms: number) => Promise<void> = ms => new Promise(resolve => setTimeout(resolve, ms))
+  ) {
+    this.name = inner.name
+    this.model = inner.model
+    this.supportsFunctionCalling = inner.supportsFunctionCalling
+  }
+
+  get circuitOpen(): boolean {
+    return Date.now() < this.openUntil
+  }
+
+  async generateContent(request: GenerateRequest): Promise<GenerateResponse> {
+    this.stats.calls++
+
+    for (let attempt = 1; ; attempt++) {
+      this.checkCircuit()
+      try {
+        const response = await this.withTimeout(signal => this.inner.generateContent({ ...request, signal }), request.signal)
+        this.consecutiveFailures = 0
+        return attempt > 1 ? { ...response, retries: attempt - 1 } : response
+      } catch (error) {
+        if (!isRetryable(error)) {
+          this.stats.failures++
+          throw error instanceof ProviderError ? error : new ProviderCallError(this.name, attempt, error)
+        }
+
+        this.recordFailure()
+        if (attempt > this.options.retries || this.circuitOpen) {
+          this.stats.failures++
+          throw new ProviderCallError(this.name, attempt, error)
+        }
+        this.stats.retries++
+        await this.sleep(this.backoff(attempt))
+      }
+    }
+  }
+
+  // A stream can't be replayed once it has started, so only the circuit breaker applies
+  async *streamContent(request: GenerateRequest): AsyncIterable<string> {
+    this.checkCircuit()
+    if (!this.inner.streamContent) {
+      yield (await this.generateContent(request)).text
+      return
+    }
+    yield* this.inner.streamContent(request)
+  }
+
+  // After the cooldown one call goes through: success closes the circuit, failure reopens it
+  private checkCircuit(): void {
+    if (this.circuitOpen) {
+      throw new CircuitOpenError(this.name, new Date(this.openUntil))
+    }
+  }
+
+  private recordFailure(): void {
+    this.consecutiveFailures++
+    const { breakerThreshold, breakerCooldownMs } = this.options
+    if (breakerThreshold > 0 && this.consecutiveFailures >= breakerThreshold) {
+      this.openUntil = Date.now() + breakerCooldownMs
+    }
+  }
+
+  // Full exponential delay with up to half of it taken off at random, so clients don't retry in lockstep
+  private backoff(attempt: number): number {
+    const delay = Math.min(this.options.maxBackoffMs, this.options.backoffMs * 2 ** (attempt - 1))
+    return Math.round(delay * (0.5 + Math.random() / 2))
+  }
+
+  // The attempt gets its own signal, aborted at the deadline so the request itself stops
+  // instead of running on unobserved; a signal from the caller still cancels it too
+  private async withTimeout<T>(call: (signal?: AbortSignal) => Promise<T>, outer?: AbortSignal): Promise<T> {
+    const { timeoutMs } = this.options
+    if (!timeoutMs) return call(outer)
+
+    const controller = new AbortController()
+    const signal = outer ? AbortSignal.any([outer, controller.signal]) : controller.signal
+    let timer: NodeJS.Timeout | undefined
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new ProviderTimeoutError(this.name, timeoutMs)
+        controller.abort(error)
+        reject(error)
+      }, timeoutMs)
+    })
+    try {
+      return await Promise.race([call(signal), timeout])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+}
+
+function statusOf(error: unknown): number | undefined {
+  const status = (error as { status?: unknown } | undefined)?.status
+  return typeof status === 'number' ? status : undefined
+}
@@ -0,0 +1,91 @@
+import fs from 'fs'
+import path from 'path'
+import { ProviderError, type GenerateRequest, type GenerateResponse, type LLMFunctionCall, type LLMProvider } from './types'
+
+export interface ScriptedResponse {
+  match?: string // case-insensitive regex tested against the request transcript
+  text?: string
+  json?: unknown // convenience: serialized as the response text
+  functionCalls?: Array<Omit<LLMFunctionCall, 'id'> & { id?: string }>
+  repeat?: boolean // keep the entry available after it has been used
+  error?: { message: string; status?: number } // fail the call instead, e.g. a 503 to exercise retries
+  delayMs?: number // wait before answering, e.g. to exercise timeouts
+}
+
+export interface ScriptedFixture {
+  model?: string
+  responses: ScriptedResponse[]
+}
+
+// Deterministic offline provider: replays fixture responses in order, no network involved
+export class ScriptedProvider implements LLMProvider {
+  readonly name = 'scripted'
+  readonly model: string
+  readonly supportsFunctionCalling = true
+  readonly calls: GenerateRequest[] = []
+  private remaining: ScriptedResponse[]
+
+  constructor(fixture: ScriptedFixture) {
+    this.model = fixture.model ?? 'scripted'
+    this.remaining = [...fixture.responses]
+  }
+
+  static fromFiles(...files: string[]): ScriptedProvider {
+    const fixtures = files.map(file => loadFixture(file))
+    return new ScriptedProvider({
+      model: fixtures[0]?.model,
+      responses: fixtures.flatMap(fixture => fixture.responses)
+    })
+  }
+
+  async generateContent(request: GenerateRequest): Promise<GenerateResponse> {
+    this.calls.push(request)
+    const transcript = request.messages.map(message => message.content).join('\n')
+    const index = this.remaining.findIndex(entry => !entry.match || new RegExp(entry.match, 'i').test(transcript))
+
+    if (index === -1) {
+      throw new ProviderError(
+        `No scripted response left for prompt: "${transcript.slice(0, 120).replace(/\s+/g, ' ')}..."`,
+        this.name
+      )
+    }
+
+    const entry = this.remaining[index]
+    if (!entry.repeat) this.remaining.splice(index, 1)
+    if (entry.delayMs) await new Promise(resolve => setTimeout(resolve, entry.delayMs))
+    if (entry.error) throw new ProviderError(entry.error.message, this.name, entry.error.status)
+
+    const text = entry.json !== undefined ? JSON.stringify(entry.json) : entry.text ?? ''
+    return {
+      text,
+      functionCalls: (entry.functionCalls ?? []).map((call, i) => ({ ...call, id: call.id ?? `${call.name}-${i}` })),
+      usage: {
+        promptTokens: estimateTokens(transcript),
+        completionTokens: estimateTokens(text),
+        totalTokens: estimateTokens(transcript) + estimateTokens(text)
+      }
+    }
+  }
+
+  async *streamContent(request: GenerateRequest): AsyncIterable<string> {
+    const { text } = await this.generateContent(request)
+    yield text
+  }
+}
+
+export function loadFixture(file: string): ScriptedFixture {
+  const resolved = path.resolve(file)
+  if (!fs.existsSync(resolved)) {
+    throw new ProviderError(`Fixture file not found: ${file}`, 'scripted')
+  }
+  const fixture = JSON.parse(fs.readFileSync(resolved, 'utf8')) as ScriptedFixture
+  if (!Array.isArray(fixture.responses)) {
+    throw new ProviderError(`Fixture ${file} must contain a "responses" array`, 'scripted')
+  }
+  return fixture
+}
+
+// Rough 4-chars-per-token estimate so usage numbers stay meaningful offline
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
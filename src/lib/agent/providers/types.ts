@@ -0,0 +1,66 @@
+// Provider-agnostic LLM contract used by the database agent.
+
+export type LLMRole = 'system' | 'user' | 'assistant' | 'tool'
+
+export interface LLMFunctionCall {
+  id: string
+  name: string
+  args: Record<string, unknown>
+}
+
+export interface LLMMessage {
+  role: LLMRole
+  content: string
+  functionCalls?: LLMFunctionCall[] // set on assistant turns that requested tools
+  name?: string // function name for tool results
+  callId?: string // id of the call a tool result answers
+}
+
+// JSON-schema style declaration, understood by both Gemini and OpenAI-compatible APIs
+export interface LLMFunctionDeclaration {
+  name: string
+  description: string
+  parameters: Record<string, unknown>
+}
+
+export interface GenerateRequest {
+  messages: LLMMessage[]
+  functions?: LLMFunctionDeclaration[]
+  temperature?: number
+  signal?: AbortSignal // cancels the HTTP request, e.g. once the caller has stopped waiting for it
+}
+
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+}
+
+export interface GenerateResponse {
+  text: string
+  functionCalls: LLMFunctionCall[]
+  usage?: TokenUsage
+  recordedAt?: string // set by the cache: when this response was first recorded (ISO)
+  cached?: boolean // set by the cache when the response was replayed instead of generated
+  retries?: number // failed attempts before this response, set by the resilience wrapper
+}
+
+export interface LLMProvider {
+  readonly name: string
+  readonly model: string
+  readonly supportsFunctionCalling: boolean
+  generateContent(request: GenerateRequest): Promise<GenerateResponse>
+  streamContent?(request: GenerateRequest): AsyncIterable<string>
+}
+
+export class ProviderError extends Error {
+  constructor(message: string, readonly provider: string, readonly status?: number) {
+    super(message)
+    this.name = 'ProviderError'
+  }
+}
+
+// Shorthand for the common single-prompt call
+export function userPrompt(prompt: string): GenerateRequest {
+  return { messages: [{ role: 'user', content: prompt }] }
+}
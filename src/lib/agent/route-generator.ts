@@ -0,0 +1,368 @@
+// Generates typed Next.js CRUD routes for any table in src/lib/db/schema.ts.
+
+import path from 'path'
+import type { SQLiteColumn } from 'drizzle-orm/sqlite-core'
+import { getSchemaExportName, getTableColumns } from '../db/tables'
+
+// A column of the route's table ('title'), of the joined table ('tracks.title'), a literal value,
+// or a total over linked rows
+export type ProjectionField = string | number | LinkedTotal
+
+// Sum of a column over the rows linked through a link table, e.g. a playlist's duration from its
+// tracks: <through.table>.<from> holds this row's primary key, <through.table>.<to> the other one's.
+// `otherwise` (a column of the route's table, or a literal) is used when nothing is linked.
+export interface LinkedTotal {
+  total: string // 'tracks.duration'
+  through: { table: string; from: string; to: string }
+  otherwise?: string | number
+}
+
+export interface RouteSpec {
+  table: string
+  segment?: string // URL segment under /api, defaults to the table name in kebab-case
+  label?: string // used in error messages, defaults to the table name in words
+  projection?: Record<string, ProjectionField> // output field -> source, e.g. { artist: 'description' }
+  join?: { table: string; from: string; to: string } // inner join on <table>.<from> = <join.table>.<to>
+  orderBy?: { field: string; direction?: 'asc' | 'desc' }
+  defaultLimit?: number
+}
+
+export interface GeneratedFile {
+  path: string
+  content: string
+}
+
+export const API_ROOT = 'src/app/api'
+const MAX_LIMIT = 100
+
+interface ColumnRef {
+  exportName: string
+  property: string
+  column: SQLiteColumn
+}
+
+export function routeSegment(spec: RouteSpec): string {
+  return spec.segment ?? spec.table.replace(/_/g, '-')
+}
+
+// List/create route plus an /[id] route when the table has a single-column primary key
+export function generateRouteFiles(spec: RouteSpec): GeneratedFile[] {
+  const dir = path.join(API_ROOT, routeSegment(spec))
+  const files = [{ path: path.join(dir, 'route.ts'), content: generateCollectionRoute(spec) }]
+  if (primaryKeyOf(spec.table)) {
+    files.push({ path: path.join(dir, '[id]', 'route.ts'), content: generateItemRoute(spec) })
+  }
+  return files
+}
+
+export function generateCollectionRoute(spec: RouteSpec): string {
+  const base = getSchemaExportName(spec.table)
+  const columns = getTableColumns(spec.table)
+  const label = spec.label ?? spec.table.replace(/_/g, ' ')
+  const primaryKey = primaryKeyOf(spec.table)
+  const defaultLimit = spec.defaultLimit ?? 50
+  const filterEntries = Object.entries(columns)
+    .filter(([, column]) => ['string', 'number', 'boolean', 'date'].includes(column.dataType))
+    .map(([property, column]) => `  ${property}: ${filterFunction(base, property, column)}`)
+  const generatesId = primaryKey && columns[primaryKey].dataType === 'string'
+
+  return `import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { ${drizzleImports(spec, ['and', 'eq', 'type SQL'])} } from 'drizzle-orm'
+import { db } from '@/lib/db'
+import { ${schemaImports(spec)} } from '@/lib/db/schema'
+
+// Generated by the database agent from the ${spec.table} table definition
+
+${projectionBlock(spec)}
+// undefined for a value the column can't hold, which gets the request a 400
+const filters: Record<string, (value: string) => SQL | undefined> = {
+${filterEntries.join(',\n')}
+}
+
+const createSchema = ${zodObject(spec.table, { forCreate: true })}
+
+const DEFAULT_LIMIT = ${defaultLimit}
+const MAX_LIMIT = ${Math.max(MAX_LIMIT, defaultLimit)}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl
+    const fields = Object.keys(filters).filter(field => searchParams.has(field))
+    const conditions = fields.map(field => filters[field](searchParams.get(field)!))
+    const invalid = fields.filter((_, index) => !conditions[index])
+    if (invalid.length) {
+      return NextResponse.json({ error: \`Invalid value for \${invalid.join(', ')}\` }, { status: 400 })
+    }
+    // Clamped below too: SQLite reads a negative LIMIT as no limit at all
+    const limit = searchParams.has('limit') ? Number(searchParams.get('limit')) : DEFAULT_LIMIT
+    const offset = searchParams.has('offset') ? Number(searchParams.get('offset')) : 0
+    if (!Number.isInteger(limit) || !Number.isInteger(offset)) {
+      return NextResponse.json({ error: 'limit and offset must be whole numbers' }, { status: 400 })
+    }
+
+    const rows = await ${selectChain(spec, '      ')}
+      .where(conditions.length ? and(...conditions) : undefined)${orderByCall(spec)}
+      .limit(Math.min(Math.max(limit, 1), MAX_LIMIT))
+      .offset(Math.max(offset, 0))
+
+    return NextResponse.json(rows)
+  } catch (error) {
+    console.error('Error fetching ${label}:', error)
+    return NextResponse.json({ error: 'Failed to fetch ${label}' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // A body that isn't JSON fails the schema like any other bad body
+    const parsed = createSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request body', issues: parsed.error.issues }, { status: 400 })
+    }
+
+    const [created] = await db.insert(${base})
+      .values(${generatesId ? `{ ...parsed.data, ${primaryKey}: parsed.data.${primaryKey} ?? crypto.randomUUID() }` : 'parsed.data'})
+      .returning()
+
+    return NextResponse.json(created, { status: 201 })
+  } catch (error) {
+    console.error('Error creating ${label}:', error)
+    return NextResponse.json({ error: 'Failed to create ${label}' }, { status: 500 })
+  }
+}
+`
+}
+
+export function generateItemRoute(spec: RouteSpec): string {
+  const base = getSchemaExportName(spec.table)
+  const label = spec.label ?? spec.table.replace(/_/g, ' ')
+  const primaryKey = primaryKeyOf(spec.table)
+  if (!primaryKey) {
+    throw new Error(`Table ${spec.table} has no single-column primary key to address rows by`)
+  }
+  const idExpression = parseExpression(getTableColumns(spec.table)[primaryKey], 'id')
+
+  return `import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { ${drizzleImports(spec, ['eq'])} } from 'drizzle-orm'
+import { db } from '@/lib/db'
+import { ${schemaImports(spec)} } from '@/lib/db/schema'
+
+// Generated by the database agent from the ${spec.table} table definition
+
+${projectionBlock(spec)}
+const updateSchema = ${zodObject(spec.table, { forCreate: false })}
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const [row] = await ${selectChain(spec, '      ')}
+      .where(eq(${base}.${primaryKey}, ${idExpression}))
+      .limit(1)
+
+    if (!row) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+    return NextResponse.json(row)
+  } catch (error) {
+    console.error('Error fetching ${label}:', error)
+    return NextResponse.json({ error: 'Failed to fetch ${label}' }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    // A body that isn't JSON fails the schema like any other bad body
+    const parsed = updateSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request body', issues: parsed.error.issues }, { status: 400 })
+    }
+    if (!Object.keys(parsed.data).length) {
+      return NextResponse.json({ error: 'No fields to update' }, { status: 400 })
+    }
+
+    const [updated] = await db.update(${base})
+      .set(parsed.data)
+      .where(eq(${base}.${primaryKey}, ${idExpression}))
+      .returning()
+
+    if (!updated) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+    return NextResponse.json(updated)
+  } catch (error) {
+    console.error('Error updating ${label}:', error)
+    return NextResponse.json({ error: 'Failed to update ${label}' }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const [deleted] = await db.delete(${base})
+      .where(eq(${base}.${primaryKey}, ${idExpression}))
+      .returning()
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    console.error('Error deleting ${label}:', error)
+    return NextResponse.json({ error: 'Failed to delete ${label}' }, { status: 500 })
+  }
+}
+`
+}
+
+// TypeScript type of each field in the JSON the list route returns (timestamps arrive as strings)
+export function responseFields(spec: RouteSpec): Record<string, string> {
+  const sources: [string, ProjectionField][] = spec.projection
+    ? Object.entries(spec.projection)
+    : Object.keys(getTableColumns(spec.table)).map(property => [property, property])
+
+  return Object.fromEntries(sources.map(([field, source]) => {
+    if (typeof source === 'number') return [field, 'number']
+    if (typeof source === 'object') return [field, source.otherwise === undefined ? 'number | null' : 'number']
+    const { column } = resolveRef(spec, source)
+    const type = ({ number: 'number', boolean: 'boolean', date: 'string', json: 'unknown' } as Record<string, string>)[column.dataType] ?? 'string'
+    return [field, column.notNull ? type : `${type} | null`]
+  }))
+}
+
+function primaryKeyOf(tableName: string): string | undefined {
+  const keys = Object.entries(getTableColumns(tableName)).filter(([, column]) => column.primary)
+  return keys.length === 1 ? keys[0][0] : undefined
+}
+
+function resolveRef(spec: RouteSpec, ref: string): ColumnRef {
+  const [tableName, property] = ref.includes('.') ? ref.split('.') : [spec.table, ref]
+  if (tableName !== spec.table && tableName !== spec.join?.table) {
+    throw new Error(`Projection "${ref}" refers to ${tableName}, which is neither ${spec.table} nor the joined table`)
+  }
+  const column = getTableColumns(tableName)[property]
+  if (!column) {
+    throw new Error(`Column ${property} does not exist on ${tableName}`)
+  }
+  return { exportName: getSchemaExportName(tableName), property, column }
+}
+
+function drizzleImports(spec: RouteSpec, names: string[]): string {
+  const projectsLiteral = Object.values(spec.projection ?? {}).some(field => typeof field !== 'string')
+  const sortsDescending = names.includes('and') && spec.orderBy?.direction === 'desc'
+  return [...names, ...(sortsDescending ? ['desc'] : []), ...(projectsLiteral ? ['sql'] : [])].join(', ')
+}
+
+function schemaImports(spec: RouteSpec): string {
+  const names = [getSchemaExportName(spec.table), ...(spec.join ? [getSchemaExportName(spec.join.table)] : [])]
+  return [...new Set(names)].join(', ')
+}
+
+function projectionBlock(spec: RouteSpec): string {
+  if (!spec.projection) return ''
+  const fields = Object.entries(spec.projection).map(([field, source]) => {
+    if (typeof source === 'number') {
+      return `  ${field}: sql<number>\`${source}\``
+    }
+    if (typeof source === 'object') {
+      return `  ${field}: sql<number>\`${linkedTotalSQL(spec, source)}\``
+    }
+    const ref = resolveRef(spec, source)
+    return `  ${field}: ${ref.exportName}.${ref.property}`
+  })
+  return `const projection = {\n${fields.join(',\n')}\n}\n`
+}
+
+// A correlated subquery written out in SQL: inside a sql`` template on a single-table select,
+// drizzle would drop the table names the subquery needs to tell its columns apart
+function linkedTotalSQL(spec: RouteSpec, { total, through, otherwise }: LinkedTotal): string {
+  const [totalTable, totalProperty] = total.split('.')
+  const primaryKey = primaryKeyOf(spec.table)
+  const targetKey = primaryKeyOf(totalTable)
+  if (!primaryKey || !targetKey) {
+    throw new Error(`Totals over ${through.table} need single-column primary keys on ${spec.table} and ${totalTable}`)
+  }
+  const name = (table: string, property: string) => {
+    const column = getTableColumns(table)[property]
+    if (!column) throw new Error(`Column ${property} does not exist on ${table}`)
+    return `"${table}"."${column.name}"`
+  }
+  const fallback = otherwise === undefined ? 'NULL' : typeof otherwise === 'number' ? String(otherwise) : name(spec.table, otherwise)
+  return `coalesce((SELECT sum(${name(totalTable, totalProperty)}) FROM "${through.table}" ` +
+    `INNER JOIN "${totalTable}" ON ${name(totalTable, targetKey)} = ${name(through.table, through.to)} ` +
+    `WHERE ${name(through.table, through.from)} = ${name(spec.table, primaryKey)}), ${fallback})`
+}
+
+function selectChain(spec: RouteSpec, indent: string): string {
+  const base = getSchemaExportName(spec.table)
+  let chain = `db.select(${spec.projection ? 'projection' : ''})\n${indent}.from(${base})`
+  if (spec.join) {
+    const from = resolveRef(spec, spec.join.from)
+    const to = resolveRef(spec, `${spec.join.table}.${spec.join.to}`)
+    chain += `\n${indent}.innerJoin(${to.exportName}, eq(${from.exportName}.${from.property}, ${to.exportName}.${to.property}))`
+  }
+  return chain
+}
+
+function orderByCall(spec: RouteSpec): string {
+  if (!spec.orderBy) return ''
+  const ref = resolveRef(spec, spec.orderBy.field)
+  const column = `${ref.exportName}.${ref.property}`
+  return `\n      .orderBy(${spec.orderBy.direction === 'desc' ? `desc(${column})` : column})`
+}
+
+// Query-string values arrive as strings; convert them to the column's type
+// A filter that parses the query value for the column, or gives undefined when it can't
+function filterFunction(base: string, property: string, column: SQLiteColumn): string {
+  const parsed = parseExpression(column, 'value')
+  const condition = `eq(${base}.${property}, ${parsed})`
+  if (column.dataType === 'number') return `value => Number.isNaN(${parsed}) ? undefined : ${condition}`
+  if (column.dataType === 'date') return `value => Number.isNaN(${parsed}.getTime()) ? undefined : ${condition}`
+  return `value => ${condition}`
+}
+
+function parseExpression(column: SQLiteColumn, variable: string): string {
+  switch (column.dataType) {
+    case 'number':
+      return `Number(${variable})`
+    case 'boolean':
+      return `${variable} === 'true'`
+    case 'date':
+      return `new Date(${variable})`
+    default:
+      return variable
+  }
+}
+
+function zodType(column: SQLiteColumn): string {
+  switch (column.dataType) {
+    case 'number':
+      return column.columnType === 'SQLiteInteger' || column.columnType === 'SQLiteTimestamp' ? 'z.number().int()' : 'z.number()'
+    case 'boolean':
+      return 'z.boolean()'
+    case 'date':
+      return 'z.coerce.date()'
+    case 'json':
+      return 'z.unknown()'
+    default:
+      return 'z.string()'
+  }
+}
+
+// Request validation derived from the columns: required when NOT NULL without a default.
+// Updates never change the primary key and treat every other field as optional.
+function zodObject(tableName: string, { forCreate }: { forCreate: boolean }): string {
+  const fields = Object.entries(getTableColumns(tableName))
+    .filter(([, column]) => forCreate || !column.primary)
+    .map(([property, column]) => {
+      const type = zodType(column)
+      const autoId = column.primary && column.dataType === 'string'
+      const optional = !forCreate || !column.notNull || column.hasDefault || autoId
+      return `  ${property}: ${type}${!column.notNull ? '.nullable()' : ''}${optional ? '.optional()' : ''}`
+    })
+  return `z.object({\n${fields.join(',\n')}\n})${forCreate ? '' : '.strict()'}`
+}
@@ -0,0 +1,267 @@
+// Checks generated route.ts files before a run commits them: they must compile against the
+// project's tsconfig.json, and their GET handlers must answer from the current database with
+// JSON of the expected shape (the shared Track type for the routes the shelves read).
+
+import fs from 'fs'
+import path from 'path'
+import { pathToFileURL } from 'url'
+import ts from 'typescript'
+import { NextRequest } from 'next/server'
+import { API_ROOT } from './route-generator'
+import type { UnitOfWork } from './unit-of-work'
+
+export const TRACK_TYPE_FILE = 'src/types/index.ts'
+
+// field -> "string", "number", ... or a union such as "string|null"; "missing" allows an absent field
+export type ResponseShape = Record<string, string>
+
+export interface RouteProblem {
+  file: string
+  check: 'typecheck' | 'request' | 'shape'
+  detail: string
+}
+
+export interface RouteVerification {
+  typechecked: string[]
+  requested: string[] // e.g. GET /api/recently-played
+  skipped: string[] // why a file or request could not be checked
+}
+
+export interface VerifyRoutesOptions {
+  tsconfig?: string
+  shapes?: Record<string, ResponseShape> // URL path of a list route -> shape of its items
+  invoke?: boolean // call the GET handlers, defaults to true
+}
+
+export interface RouteResponse {
+  status: number
+  body: unknown
+}
+
+export class RouteVerificationError extends Error {
+  constructor(readonly problems: RouteProblem[]) {
+    super(`Generated routes failed verification: ${problems.map(formatRouteProblem).join('; ')}`)
+    this.name = 'RouteVerificationError'
+  }
+}
+
+// Options for this process: eval runs scenarios from a temp dir with tsx pointed at the project's
+// tsconfig, so the typecheck follows it too; Next.js can't import a route file at run time, so
+// from the web UI routes are only typechecked
+export function routeCheckOptions(trackRoutes: string[], env: NodeJS.ProcessEnv = process.env): VerifyRoutesOptions {
+  const tsconfig = env.TSX_TSCONFIG_PATH || 'tsconfig.json'
+  const track = readInterfaceShape('Track', path.join(path.dirname(tsconfig), TRACK_TYPE_FILE))
+  return { tsconfig, shapes: Object.fromEntries(trackRoutes.map(route => [route, track])), invoke: !env.NEXT_RUNTIME }
+}
+
+export function isRouteFile(filePath: string): boolean {
+  const relative = path.relative(API_ROOT, filePath).split(path.sep).join('/')
+  return !relative.startsWith('../') && !path.isAbsolute(relative) && path.basename(filePath) === 'route.ts'
+}
+
+// Typecheck the files first (a route that doesn't compile is never imported), then call each list
+// route and, through the first item it returns, its /[id] route. Throws with every problem found.
+export async function verifyRoutes(files: string[], { tsconfig = 'tsconfig.json', shapes = {}, invoke = true }: VerifyRoutesOptions = {}): Promise<RouteVerification> {
+  const verification: RouteVerification = { typechecked: [], requested: [], skipped: [] }
+  const routeFiles = files.filter(isRouteFile)
+  if (!routeFiles.length) return verification
+
+  const diagnostics = typecheckFiles(routeFiles, tsconfig)
+  if (diagnostics.length) throw new RouteVerificationError(diagnostics)
+  verification.typechecked.push(...routeFiles)
+
+  if (!invoke) return verification
+  const problems: RouteProblem[] = []
+  for (const file of routeFiles.filter(file => !routeParams(file).length)) {
+    const urlPath = routeUrlPath(file, {})
+    const list = await requestRoute(file, urlPath, {}, shapes[urlPath], problems, verification)
+    if (!Array.isArray(list)) continue
+
+    const itemFile = routeFiles.find(other => path.dirname(path.dirname(other)) === path.dirname(file) && routeParams(other).length === 1)
+    if (!itemFile) continue
+    if (!list.length) {
+      verification.skipped.push(`${itemFile}: ${urlPath} returned no item to request it with`)
+      continue
+    }
+    const id = (list[0] as Record<string, unknown>).id
+    if (id === undefined || id === null) {
+      problems.push({ file, check: 'shape', detail: `GET ${urlPath} returned items without an id, so ${itemFile} can't be requested` })
+      continue
+    }
+    const params = { [routeParams(itemFile)[0]]: String(id) }
+    await requestRoute(itemFile, routeUrlPath(itemFile, params), params, shapes[urlPath], problems, verification)
+  }
+  if (problems.length) throw new RouteVerificationError(problems)
+  return verification
+}
+
+// Routes are staged until the unit commits; write them ahead of it to check them in place.
+// When a check fails the unit's rollback removes them again.
+export async function verifyStagedRoutes(unit: UnitOfWork, files: string[], options?: VerifyRoutesOptions): Promise<RouteVerification> {
+  const routeFiles = files.filter(isRouteFile)
+  routeFiles.forEach(file => unit.flushFile(file))
+  return verifyRoutes(routeFiles, options)
+}
+
+// Compile the files with the project's compiler options. Only errors in the files themselves are
+// reported (an import that doesn't resolve is one); the rest of the project is checked by tsc.
+export function typecheckFiles(files: string[], tsconfig = 'tsconfig.json'): RouteProblem[] {
+  const configPath = path.resolve(tsconfig)
+  const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile)
+  if (error) {
+    return [{ file: tsconfig, check: 'typecheck', detail: ts.flattenDiagnosticMessageText(error.messageText, '\n') }]
+  }
+  const parsed = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath), undefined, configPath)
+  const options = { ...parsed.options, noEmit: true, incremental: false, tsBuildInfoFile: undefined }
+  const program = ts.createProgram(files.map(file => path.resolve(file)), options)
+
+  const diagnostics = [
+    ...program.getOptionsDiagnostics(),
+    ...files.flatMap(file => ts.getPreEmitDiagnostics(program, program.getSourceFile(path.resolve(file))))
+  ]
+  return ts.sortAndDeduplicateDiagnostics(diagnostics)
+    .filter(diagnostic => diagnostic.category === ts.DiagnosticCategory.Error)
+    .map(diagnostic => {
+      const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, ' ')
+      if (!diagnostic.file || diagnostic.start === undefined) {
+        return { file: tsconfig, check: 'typecheck', detail: `TS${diagnostic.code}: ${message}` }
+      }
+      const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+      const file = path.relative(process.cwd(), diagnostic.file.fileName)
+      return { file, check: 'typecheck', detail: `(${line + 1},${character + 1}) TS${diagnostic.code}: ${message}` }
+    })
+}
+
+// Import a route file and call its GET handler in-process, as Next.js would for `urlPath`. The
+// query string makes every call a fresh import: a long-lived process (chat, the web UI) would
+// otherwise keep running the first version of a route the agent has since rewritten.
+export async function callRoute(file: string, urlPath: string, params: Record<string, string>): Promise<RouteResponse> {
+  const route = await import(`${pathToFileURL(path.resolve(file)).href}?v=${Date.now()}`) as {
+    GET?: (request: NextRequest, context: { params: Promise<Record<string, string>> }) => Promise<Response>
+  }
+  if (!route.GET) throw new Error('the route has no GET handler')
+  const response = await route.GET(new NextRequest(new URL(urlPath, 'http://localhost')), { params: Promise.resolve(params) })
+  return { status: response.status, body: await response.json() }
+}
+
+// /api/popular-albums/1 -> src/app/api/popular-albums/[id]/route.ts with { id: '1' }; a query
+// string is left to the handler
+export function resolveRouteFile(urlPath: string): { file: string; params: Record<string, string> } | null {
+  const params: Record<string, string> = {}
+  let dir = API_ROOT
+  for (const segment of new URL(urlPath, 'http://localhost').pathname.replace(/^\/api\/?/, '').split('/').filter(Boolean)) {
+    if (fs.existsSync(path.join(dir, segment))) {
+      dir = path.join(dir, segment)
+      continue
+    }
+    const dynamic = fs.existsSync(dir) ? fs.readdirSync(dir).find(name => /^\[\w+\]$/.test(name)) : undefined
+    if (!dynamic) return null
+    params[dynamic.slice(1, -1)] = decodeURIComponent(segment)
+    dir = path.join(dir, dynamic)
+  }
+  const file = path.join(dir, 'route.ts')
+  return fs.existsSync(file) ? { file, params } : null
+}
+
+// The fields of an interface in a source file, e.g. Track from src/types/index.ts
+export function readInterfaceShape(name: string, file = TRACK_TYPE_FILE): ResponseShape {
+  const source = ts.createSourceFile(file, fs.readFileSync(file, 'utf8'), ts.ScriptTarget.Latest, true)
+  const declaration = source.statements.find((statement): statement is ts.InterfaceDeclaration =>
+    ts.isInterfaceDeclaration(statement) && statement.name.text === name)
+  if (!declaration) throw new Error(`${file} has no interface ${name}`)
+
+  return Object.fromEntries(declaration.members.filter(ts.isPropertySignature).map(member => {
+    const types = member.type ? valueTypes(member.type) : ['string', 'number', 'boolean', 'null', 'object', 'array']
+    return [member.name.getText(source), [...types, ...(member.questionToken ? ['missing'] : [])].join('|')]
+  }))
+}
+
+export function shapeProblems(value: unknown, shape: ResponseShape): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return ['not an object']
+  return Object.entries(shape).flatMap(([field, expected]) => {
+    const actual = typeOf((value as Record<string, unknown>)[field])
+    return expected.split('|').includes(actual) ? [] : [`${field} is ${actual}, expected ${expected}`]
+  })
+}
+
+export function formatRouteProblem({ file, check, detail }: RouteProblem): string {
+  return check === 'typecheck' ? `${file}${detail.startsWith('(') ? '' : ': '}${detail}` : `${file}: ${detail}`
+}
+
+async function requestRoute(
+  file: string,
+  urlPath: string,
+  params: Record<string, string>,
+  shape: ResponseShape | undefined,
+  problems: RouteProblem[],
+  verification: RouteVerification
+): Promise<unknown> {
+  let response: RouteResponse
+  try {
+    response = await callRoute(file, urlPath, params)
+  } catch (error) {
+    problems.push({ file, check: 'request', detail: `GET ${urlPath} threw: ${(error as Error).message}` })
+    return undefined
+  }
+  verification.requested.push(`GET ${urlPath}`)
+
+  const { status, body } = response
+  const isItem = Object.keys(params).length > 0
+  // The item's id came from the list route, so a 404 is as much a failure as any other status
+  if (status !== 200) {
+    problems.push({ file, check: 'request', detail: `GET ${urlPath} returned ${status}: ${JSON.stringify(body).slice(0, 200)}` })
+    return undefined
+  }
+  if (!isItem && !Array.isArray(body)) {
+    problems.push({ file, check: 'shape', detail: `GET ${urlPath} did not return a list` })
+    return undefined
+  }
+  const items = Array.isArray(body) ? body : [body]
+  const found = items.flatMap((item, index) =>
+    shapeProblems(item, shape ?? {}).map(problem => isItem ? problem : `item ${index}: ${problem}`))
+  if (found.length) {
+    const more = found.length > 3 ? ` and ${found.length - 3} more` : ''
+    problems.push({ file, check: 'shape', detail: `GET ${urlPath}: ${found.slice(0, 3).join(', ')}${more}` })
+    return undefined
+  }
+  return body
+}
+
+// Names of the dynamic segments in a route file's path: src/app/api/tracks/[id]/route.ts -> ['id']
+function routeParams(file: string): string[] {
+  return path.relative(API_ROOT, path.dirname(file)).split(path.sep)
+    .filter(segment => /^\[\w+\]$/.test(segment))
+    .map(segment => segment.slice(1, -1))
+}
+
+function routeUrlPath(file: string, params: Record<string, string>): string {
+  const segments = path.relative(API_ROOT, path.dirname(file)).split(path.sep).filter(Boolean)
+    .map(segment => /^\[\w+\]$/.test(segment) ? encodeURIComponent(params[segment.slice(1, -1)]) : segment)
+  return ['/api', ...segments].join('/')
+}
+
+function valueTypes(type: ts.TypeNode): string[] {
+  if (ts.isUnionTypeNode(type)) return type.types.flatMap(valueTypes)
+  if (ts.isParenthesizedTypeNode(type)) return valueTypes(type.type)
+  if (ts.isArrayTypeNode(type) || ts.isTupleTypeNode(type)) return ['array']
+  if (ts.isLiteralTypeNode(type)) {
+    if (type.literal.kind === ts.SyntaxKind.NullKeyword) return ['null']
+    if (ts.isStringLiteral(type.literal)) return ['string']
+    if (ts.isNumericLiteral(type.literal)) return ['number']
+    return ['boolean']
+  }
+  switch (type.kind) {
+    case ts.SyntaxKind.StringKeyword: return ['string']
+    case ts.SyntaxKind.NumberKeyword: return ['number']
+    case ts.SyntaxKind.BooleanKeyword: return ['boolean']
+    case ts.SyntaxKind.UndefinedKeyword: return ['missing']
+    default: return ['object']
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === undefined) return 'missing'
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
@@ -0,0 +1,245 @@
+// Audit log of agent runs in agent_runs / agent_run_steps: what was asked, what the model
+// answered, and what the run actually changed.
+
+import crypto from 'crypto'
+import BetterSqlite3 from 'better-sqlite3'
+import type { Database } from '../db'
+import { asc, desc, eq, isNotNull, like } from 'drizzle-orm'
+import { agentRuns, agentRunSteps, type AgentRun, type AgentRunStep } from '../db/schema'
+import { tableExists } from '../db/ddl'
+import { applyMigrations, planTableMigration, writeMigration } from '../db/migrations'
+import { getTableColumns } from '../db/tables'
+import type { ApplyResult, Changeset } from './changeset'
+import type { QueryPlan } from './plan'
+import { formatUsage, type RunUsage } from './usage'
+
+export const RUN_LOG_TABLES = ['agent_runs', 'agent_run_steps']
+
+export type RunOutcome = 'applied' | 'planned' | 'undone' | 'failed'
+
+export interface FileRecord {
+  path: string
+  sha256: string
+}
+
+// Everything a run collects while it executes; turned into rows by recordRun()
+export interface RunDraft {
+  query: string
+  provider: string
+  model: string
+  startedAt: Date
+  steps: string[]
+  prompt?: string
+  response?: string
+  plan?: QueryPlan
+  usage?: RunUsage
+}
+
+export interface RunDetails {
+  run: AgentRun
+  steps: AgentRunStep[]
+}
+
+// The log lives in its own migration so it shares the drizzle history. It is a project
+// migration, not an agent one, so rolling back the agent's changes never drops it. Returns the
+// tag when the tables had to be created; with create: false (dry runs) they are left missing.
+export async function ensureRunLogTables(sqlite: BetterSqlite3.Database, { create = true } = {}): Promise<string | null> {
+  if (hasRunLogTables(sqlite)) {
+    upgradeRunLogTables(sqlite)
+    return null
+  }
+  if (!create) return null
+  const planned = await planTableMigration(sqlite, RUN_LOG_TABLES, 'create_run_log')
+  const migration = planned && writeMigration({ ...planned, agent: false })
+  applyMigrations(sqlite)
+  return migration?.tag ?? null
+}
+
+export function hasRunLogTables(sqlite: BetterSqlite3.Database): boolean {
+  return RUN_LOG_TABLES.every(table => tableExists(sqlite, table))
+}
+
+// Logs created before a column was added to the schema get it in place. Only nullable
+// columns are added, so the rows already logged stay valid.
+export function upgradeRunLogTables(sqlite: BetterSqlite3.Database): void {
+  for (const table of RUN_LOG_TABLES) {
+    const existing = (sqlite.prepare(`PRAGMA table_info("${table}")`).all() as { name: string }[]).map(column => column.name)
+    for (const column of Object.values(getTableColumns(table))) {
+      if (existing.includes(column.name) || column.notNull) continue
+      sqlite.exec(`ALTER TABLE "${table}" ADD COLUMN "${column.name}" ${column.getSQLType()}`)
+    }
+  }
+}
+
+export function recordRun(
+  db: Database,
+  draft: RunDraft,
+  outcome: { outcome: RunOutcome; changeset?: Changeset; applied?: ApplyResult; error?: unknown }
+): string {
+  const id = crypto.randomUUID()
+
+  db.transaction(tx => {
+    tx.insert(agentRuns).values({
+      id,
+      query: draft.query,
+      provider: draft.provider,
+      model: draft.model,
+      prompt: draft.prompt,
+      response: draft.response,
+      plan: draft.plan,
+      usage: draft.usage,
+      ...outcomeColumns(outcome),
+      startedAt: draft.startedAt,
+      durationMs: Date.now() - draft.startedAt.getTime()
+    }).run()
+
+    draft.steps.forEach((description, position) => {
+      tx.insert(agentRunSteps).values({ id: crypto.randomUUID(), runId: id, position, description }).run()
+    })
+  })
+
+  return id
+}
+
+// A later event changed what a run amounts to: its dry run was approved, or it was undone
+export function updateRunOutcome(
+  db: Database,
+  id: string,
+  outcome: { outcome: RunOutcome; changeset?: Changeset; applied?: ApplyResult }
+): void {
+  const columns = outcome.outcome === 'undone' ? { outcome: outcome.outcome } : outcomeColumns(outcome)
+  db.update(agentRuns).set(columns).where(eq(agentRuns.id, id)).run()
+}
+
+// A snapshot restore replaces agent_runs along with everything else. This copies back the runs
+// logged since, from `previousDatabase` (the state just before the restore); runs the snapshot
+// already had keep the outcome they had then. The applied runs the restore reverted (the one
+// that took the snapshot and every run after it) are marked undone, and their ids returned.
+export async function carryOverRunLog(
+  sqlite: BetterSqlite3.Database,
+  previousDatabase: string,
+  restored: { id: string; createdAt: string }
+): Promise<string[]> {
+  const previous = new BetterSqlite3(previousDatabase, { readonly: true, fileMustExist: true })
+  const columns = Object.fromEntries(RUN_LOG_TABLES.map(table => [
+    table,
+    tableExists(previous, table)
+      ? (previous.prepare(`PRAGMA table_info("${table}")`).all() as { name: string }[]).map(column => column.name)
+      : []
+  ]))
+  previous.close()
+  if (RUN_LOG_TABLES.some(table => !columns[table].length)) return []
+
+  await ensureRunLogTables(sqlite)
+  sqlite.prepare('ATTACH DATABASE ? AS previous').run(previousDatabase)
+  try {
+    return sqlite.transaction(() => {
+      for (const table of RUN_LOG_TABLES) {
+        const list = columns[table].map(column => `"${column}"`).join(', ')
+        sqlite.exec(`INSERT OR IGNORE INTO main."${table}" (${list}) SELECT ${list} FROM previous."${table}"`)
+      }
+      const reverted = sqlite.prepare(
+        `UPDATE agent_runs SET outcome = 'undone' WHERE outcome = 'applied' AND (snapshot_id = ? OR started_at >= ?) RETURNING id`
+      ).all(restored.id, Date.parse(restored.createdAt)) as { id: string }[]
+      return reverted.map(run => run.id)
+    })()
+  } finally {
+    sqlite.exec('DETACH DATABASE previous')
+  }
+}
+
+export function listRuns(db: Database, limit = 20): AgentRun[] {
+  return db.select().from(agentRuns).orderBy(desc(agentRuns.startedAt)).limit(limit).all()
+}
+
+// Accepts a full id or a unique prefix of one, as printed by `agent history`
+export function getRun(db: Database, idOrPrefix: string): RunDetails | null {
+  const matches = db.select().from(agentRuns).where(like(agentRuns.id, `${idOrPrefix}%`)).limit(2).all()
+  if (matches.length > 1) {
+    throw new Error(`Run id ${idOrPrefix} is ambiguous; use more characters`)
+  }
+  if (!matches.length) return null
+
+  const steps = db.select().from(agentRunSteps)
+    .where(eq(agentRunSteps.runId, matches[0].id))
+    .orderBy(asc(agentRunSteps.position))
+    .all()
+  return { run: matches[0], steps }
+}
+
+// Snapshot id -> id of the run that took it
+export function snapshotRunIds(db: Database): Map<string, string> {
+  const runs = db.select({ id: agentRuns.id, snapshotId: agentRuns.snapshotId }).from(agentRuns).where(isNotNull(agentRuns.snapshotId)).all()
+  return new Map(runs.map(run => [run.snapshotId!, run.id]))
+}
+
+export function formatRunList(runs: AgentRun[]): string {
+  if (!runs.length) {
+    return '   (no agent runs recorded yet)'
+  }
+  const icons: Record<string, string> = { applied: '✅', planned: '📋', undone: '↩️ ', failed: '❌' }
+  return runs.map(run =>
+    `   ${icons[run.outcome] ?? '•'} ${run.id.slice(0, 8)}  ${run.startedAt.toISOString()}  ${String(run.durationMs).padStart(6)}ms  "${run.query}"`
+  ).join('\n')
+}
+
+export function formatRun({ run, steps }: RunDetails): string {
+  const files = run.files as FileRecord[]
+  const statements = run.statements as string[]
+  const lines = [
+    `🆔 Run ${run.id}`,
+    `   ├─ Query: "${run.query}"`,
+    `   ├─ Model: ${run.provider} / ${run.model}`,
+    `   ├─ Started: ${run.startedAt.toISOString()} (${run.durationMs}ms)`,
+    ...(run.usage ? [`   ├─ LLM usage: ${formatUsage(run.usage as RunUsage)}`] : []),
+    `   ├─ Outcome: ${run.outcome}${run.error ? ` (${run.error})` : ''}`,
+    ...(run.snapshotId ? [`   ├─ Snapshot: ${run.snapshotId} (revert with: npm run agent -- snapshots restore --run ${run.id.slice(0, 8)})`] : []),
+    `   └─ Rows affected: ${run.rowsAffected}`,
+    '',
+    '📝 Steps:',
+    ...steps.map(step => `   ${step.position + 1}. ${step.description}`),
+    '',
+    '📋 Plan:',
+    indent(run.plan ? JSON.stringify(run.plan, null, 2) : '(none)'),
+    '',
+    `🗄️  SQL (${statements.length} statement(s)):`,
+    ...statements.map(statement => indent(statement.trim())),
+    '',
+    `📄 Files (${files.length}):`,
+    ...files.map(file => `   ${file.sha256.slice(0, 12)}  ${file.path}`),
+    '',
+    '💬 Prompt:',
+    indent(run.prompt?.trim() ?? '(none)'),
+    '',
+    '🤖 Response:',
+    indent(run.response?.trim() ?? '(none)')
+  ]
+  return lines.join('\n')
+}
+
+function outcomeColumns({ outcome, changeset, applied, error }: {
+  outcome: RunOutcome
+  changeset?: Changeset
+  applied?: ApplyResult
+  error?: unknown
+}) {
+  const contents = new Map(
+    (changeset?.changes ?? []).flatMap(change => change.kind === 'write_file' ? [[change.path, change.content] as const] : [])
+  )
+  return {
+    outcome,
+    error: error ? (error as Error).message ?? String(error) : null,
+    statements: applied?.statements ?? [],
+    rowsAffected: Object.values(applied?.rowsInserted ?? {}).reduce((sum, count) => sum + count, 0),
+    files: (applied?.filesWritten ?? []).map(filePath => ({ path: filePath, sha256: sha256(contents.get(filePath) ?? '') })),
+    snapshotId: applied?.snapshotId ?? null
+  }
+}
+
+function sha256(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex')
+}
+
+function indent(text: string, prefix = '   '): string {
+  return text.split('\n').map(line => prefix + line).join('\n')
+}
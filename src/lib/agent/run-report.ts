@@ -0,0 +1,112 @@
+// Machine-readable outcome of one agent run, for `agent run --json` and `agent batch`,
+// and the exit codes scripts can branch on.
+
+import type { ApplyResult, Changeset } from './changeset'
+import { StaleChangesetError } from './changeset'
+import { PlanValidationError, type QueryPlan } from './plan'
+import { ProviderError } from './providers'
+import { TokenBudgetError, type RunUsage } from './usage'
+import { PolicyViolationError } from './policy'
+
+export const EXIT_CODES = {
+  ok: 0,
+  failed: 1, // anything unexpected
+  usage: 2, // bad arguments or input file
+  invalidPlan: 3, // the model never produced a valid plan
+  applyFailed: 4, // applying failed and everything was rolled back
+  provider: 5, // the LLM provider could not be set up or called
+  budget: 6, // the run used up its token budget before it was done
+  policy: 7 // the agent policy does not allow what the run would change
+} as const
+
+export type ExitCode = typeof EXIT_CODES[keyof typeof EXIT_CODES]
+
+export type RunPhase = 'plan' | 'apply'
+
+export type RunStatus = 'applied' | 'planned' | 'failed'
+
+// Thrown by the agent when a run fails, carrying what had happened up to that point
+export class AgentRunError extends Error {
+  constructor(
+    cause: unknown,
+    readonly phase: RunPhase,
+    readonly steps: string[],
+    readonly changeset?: Changeset,
+    readonly runId?: string,
+    readonly usage?: RunUsage
+  ) {
+    super((cause as Error)?.message ?? String(cause), { cause })
+    this.name = 'AgentRunError'
+  }
+}
+
+export interface RunReport {
+  query: string
+  status: RunStatus
+  exitCode: ExitCode
+  runId: string | null
+  plan: QueryPlan | null
+  steps: string[]
+  tablesCreated: string[]
+  migrations: string[]
+  rowsInserted: Record<string, number>
+  filesWritten: string[]
+  snapshotId: string | null // restore it to revert the run
+  usage: RunUsage | null
+  errors: string[]
+}
+
+export function exitCodeFor(error: unknown): ExitCode {
+  const cause = error instanceof AgentRunError ? error.cause : error
+  if (cause instanceof PlanValidationError) return EXIT_CODES.invalidPlan
+  if (cause instanceof ProviderError) return EXIT_CODES.provider
+  if (cause instanceof TokenBudgetError) return EXIT_CODES.budget
+  if (cause instanceof PolicyViolationError) return EXIT_CODES.policy
+  if (cause instanceof StaleChangesetError) return EXIT_CODES.applyFailed
+  if (error instanceof AgentRunError && error.phase === 'apply') return EXIT_CODES.applyFailed
+  return EXIT_CODES.failed
+}
+
+export function buildRunReport(
+  query: string,
+  outcome:
+    | { changeset: Changeset; applied?: ApplyResult; steps: string[]; runId?: string; usage?: RunUsage }
+    | { error: unknown }
+): RunReport {
+  if ('error' in outcome) {
+    const { error } = outcome
+    const run = error instanceof AgentRunError ? error : undefined
+    return {
+      query,
+      status: 'failed',
+      exitCode: exitCodeFor(error),
+      runId: run?.runId ?? null,
+      plan: run?.changeset?.plan ?? null,
+      steps: run?.steps ?? [],
+      tablesCreated: [],
+      migrations: [],
+      rowsInserted: {},
+      filesWritten: [],
+      snapshotId: null,
+      usage: run?.usage ?? null,
+      errors: [(error as Error)?.message ?? String(error)]
+    }
+  }
+
+  const { changeset, applied, steps, runId, usage } = outcome
+  return {
+    query,
+    status: applied ? 'applied' : 'planned',
+    exitCode: EXIT_CODES.ok,
+    runId: runId ?? null,
+    plan: changeset.plan,
+    steps,
+    tablesCreated: applied ? changeset.changes.flatMap(change => change.kind === 'migration' ? change.tables : []) : [],
+    migrations: applied?.migrations ?? [],
+    rowsInserted: applied?.rowsInserted ?? {},
+    filesWritten: applied?.filesWritten ?? [],
+    snapshotId: applied?.snapshotId ?? null,
+    usage: usage ?? null,
+    errors: []
+  }
+}
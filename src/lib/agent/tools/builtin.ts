@@ -0,0 +1,169 @@
+// The tools the agent's model can call. Reads go straight to the database; anything that
+// changes state is recorded on the changeset and applied with the rest of the run.
+
+import { z } from 'zod/v4'
+import { getSchemaTableNames, tableExists } from '../../db/ddl'
+import { introspectTable, listLiveTables } from '../../db/introspect'
+import { getTableColumns } from '../../db/tables'
+import { generateRouteFiles, routeSegment } from '../route-generator'
+import { ToolRegistry, defineTool } from './registry'
+
+const SELECT_ROW_LIMIT = 100
+
+export const listTables = defineTool({
+  name: 'list_tables',
+  description: 'List the tables defined in the app schema and whether each exists in the database yet, with row counts.',
+  permission: 'read',
+  input: z.object({}),
+  maxCalls: 3,
+  run: async (_input, { sqlite }) => {
+    const defined = await getSchemaTableNames()
+    const live = listLiveTables(sqlite)
+    return [...new Set([...defined, ...live])].sort().map(name => ({
+      name,
+      definedInSchema: defined.includes(name),
+      exists: live.includes(name),
+      rows: live.includes(name) ? introspectTable(sqlite, name).rowCount : 0
+    }))
+  }
+})
+
+export const describeTable = defineTool({
+  name: 'describe_table',
+  description: 'Describe a table: its columns as defined in the app schema, and its live columns, foreign keys, indexes and row count.',
+  permission: 'read',
+  input: z.object({ table: z.string().describe('SQL table name, e.g. recently_played') }),
+  run: async ({ table }, { sqlite }) => {
+    const defined = (await getSchemaTableNames()).includes(table)
+    if (!defined && !tableExists(sqlite, table)) {
+      throw new Error(`Table ${table} is neither defined in the schema nor present in the database`)
+    }
+    return {
+      table,
+      exists: tableExists(sqlite, table),
+      schemaColumns: defined
+        ? Object.entries(getTableColumns(table)).map(([property, column]) => ({
+          property,
+          column: column.name,
+          type: column.getSQLType(),
+          notNull: column.notNull,
+          primaryKey: column.primary,
+          hasDefault: column.hasDefault
+        }))
+        : null,
+      live: tableExists(sqlite, table) ? introspectTable(sqlite, table) : null
+    }
+  }
+})
+
+export const runSelect = defineTool({
+  name: 'run_select',
+  description: `Run a read-only SELECT query against the database and return at most ${SELECT_ROW_LIMIT} rows.`,
+  permission: 'read',
+  input: z.object({
+    sql: z.string().describe('a single SELECT statement'),
+    limit: z.number().int().min(1).max(SELECT_ROW_LIMIT).optional()
+  }),
+  run: ({ sql, limit = 20 }, { sqlite }) => {
+    const statement = sqlite.prepare(sql)
+    if (!statement.readonly || !statement.reader) {
+      throw new Error('Only read-only SELECT statements are allowed')
+    }
+    const rows: unknown[] = []
+    for (const row of statement.iterate()) {
+      rows.push(row)
+      if (rows.length >= limit) break
+    }
+    return { rows, truncated: rows.length === limit }
+  }
+})
+
+export const createTable = defineTool({
+  name: 'create_table',
+  description: 'Create tables that are defined in the app schema but missing from the database (as a migration). Foreign-key parents are included automatically.',
+  permission: 'schema',
+  input: z.object({ tables: z.array(z.string()).min(1) }),
+  maxCalls: 3,
+  run: async ({ tables }, { sqlite, changes }) => {
+    const defined = await getSchemaTableNames()
+    const unknown = tables.filter(table => !defined.includes(table))
+    if (unknown.length) {
+      throw new Error(`Not defined in src/lib/db/schema.ts: ${unknown.join(', ')}`)
+    }
+    changes.requireTables(...tables)
+    return { planned: tables.filter(table => !tableExists(sqlite, table)), alreadyExist: tables.filter(table => tableExists(sqlite, table)) }
+  }
+})
+
+export const insertRows = defineTool({
+  name: 'insert_rows',
+  description: 'Insert rows into a schema table. Keys are the column property names from describe_table; existing primary keys are skipped.',
+  permission: 'write',
+  input: z.object({
+    table: z.string(),
+    rows: z.array(z.record(z.string(), z.unknown())).min(1).max(500),
+    description: z.string().optional()
+  }),
+  run: async ({ table, rows, description }, { changes }) => {
+    if (!(await getSchemaTableNames()).includes(table)) {
+      throw new Error(`Table ${table} is not defined in src/lib/db/schema.ts`)
+    }
+    const columns = getTableColumns(table)
+    const unknownKeys = [...new Set(rows.flatMap(row => Object.keys(row)))].filter(key => !columns[key])
+    if (unknownKeys.length) {
+      throw new Error(`Unknown column(s) for ${table}: ${unknownKeys.join(', ')}`)
+    }
+    changes.requireTables(table)
+    changes.insert(table, rows, description ?? 'rows provided by the model')
+    return { planned: rows.length }
+  }
+})
+
+export const writeRoute = defineTool({
+  name: 'write_route',
+  description: 'Generate typed CRUD API routes (/api/<segment> and /api/<segment>/[id]) for a schema table.',
+  permission: 'files',
+  input: z.object({
+    table: z.string(),
+    segment: z.string().regex(/^[a-z0-9-]+$/).optional().describe('URL segment under /api, defaults to the table name'),
+    projection: z.record(z.string(), z.union([z.string(), z.number()])).optional()
+      .describe('output field -> column property (or "table.property" of the joined table, or a number literal)')
+  }),
+  maxCalls: 5,
+  run: async ({ table, segment, projection }, { changes }) => {
+    if (!(await getSchemaTableNames()).includes(table)) {
+      throw new Error(`Table ${table} is not defined in src/lib/db/schema.ts`)
+    }
+    const spec = { table, segment, projection }
+    const files = generateRouteFiles(spec)
+    files.forEach(file => changes.writeFile(file.path, file.content))
+    return { route: `/api/${routeSegment(spec)}`, files: files.map(file => file.path) }
+  }
+})
+
+export const readComponentData = defineTool({
+  name: 'read_component_data',
+  description: 'Read the hardcoded data the frontend components render, to use as a data source for inserts.',
+  permission: 'read',
+  input: z.object({ source: z.string().optional().describe('data export name; omit to list what is available') }),
+  run: ({ source }, { componentData }) => {
+    if (!source) {
+      return Object.entries(componentData).map(([name, rows]) => ({ source: name, rows: rows.length }))
+    }
+    if (!componentData[source]) {
+      throw new Error(`Unknown data source ${source}; available: ${Object.keys(componentData).join(', ')}`)
+    }
+    return componentData[source]
+  }
+})
+
+export function createDefaultToolRegistry(): ToolRegistry {
+  return new ToolRegistry()
+    .register(listTables)
+    .register(describeTable)
+    .register(runSelect)
+    .register(createTable)
+    .register(insertRows)
+    .register(writeRoute)
+    .register(readComponentData)
+}
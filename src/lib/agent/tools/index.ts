@@ -0,0 +1,3 @@
+export * from './registry'
+export * from './builtin'
+export * from './loop'
@@ -0,0 +1,62 @@
+import type { LLMMessage, LLMProvider } from '../providers'
+import { PERMISSION_LEVELS, type PermissionLevel, type ToolCallRecord, type ToolContext, type ToolRegistry } from './registry'
+
+export const DEFAULT_MAX_STEPS = 12
+
+export interface ToolLoopOptions {
+  maxSteps?: number // model turns before the loop gives up
+  allowed?: PermissionLevel[]
+  onThought?: (text: string, step: number) => void
+  onCall?: (record: ToolCallRecord) => void
+}
+
+export interface ToolLoopResult {
+  text: string // the model's final answer
+  calls: ToolCallRecord[]
+  steps: number
+}
+
+export class StepBudgetError extends Error {
+  constructor(readonly maxSteps: number, readonly calls: ToolCallRecord[]) {
+    super(`The model was still calling tools after ${maxSteps} steps`)
+    this.name = 'StepBudgetError'
+  }
+}
+
+// Let the model call tools until it answers without one (or runs out of steps).
+// Each result goes back to the model as a tool message so the next turn can build on it.
+export async function runToolLoop(
+  provider: LLMProvider,
+  registry: ToolRegistry,
+  context: ToolContext,
+  prompt: string,
+  { maxSteps = DEFAULT_MAX_STEPS, allowed = PERMISSION_LEVELS, onThought, onCall }: ToolLoopOptions = {}
+): Promise<ToolLoopResult> {
+  const messages: LLMMessage[] = [{ role: 'user', content: prompt }]
+  const functions = registry.declarations(allowed)
+  const calls: ToolCallRecord[] = []
+
+  for (let step = 1; step <= maxSteps; step++) {
+    const response = await provider.generateContent({ messages, functions })
+    if (response.text.trim()) onThought?.(response.text.trim(), step)
+
+    if (!response.functionCalls.length) {
+      return { text: response.text, calls, steps: step }
+    }
+
+    messages.push({ role: 'assistant', content: response.text, functionCalls: response.functionCalls })
+    for (const call of response.functionCalls) {
+      const record = await registry.execute(call, context, { allowed, history: calls, step })
+      calls.push(record)
+      onCall?.(record)
+      messages.push({
+        role: 'tool',
+        name: call.name,
+        callId: call.id,
+        content: JSON.stringify(record.error ? { error: record.error } : { result: record.output ?? null })
+      })
+    }
+  }
+
+  throw new StepBudgetError(maxSteps, calls)
+}
@@ -0,0 +1,124 @@
+import { z } from 'zod/v4'
+import type BetterSqlite3 from 'better-sqlite3'
+import type { Database } from '../../db'
+import type { LLMFunctionCall, LLMFunctionDeclaration } from '../providers'
+import type { ChangesetBuilder } from '../changeset'
+
+// What a tool may touch, from least to most invasive
+export type PermissionLevel = 'read' | 'write' | 'schema' | 'files'
+
+export const PERMISSION_LEVELS: PermissionLevel[] = ['read', 'write', 'schema', 'files']
+
+// Everything tools act on; writes only go into the changeset, so dry runs and rollback still hold
+export interface ToolContext {
+  sqlite: BetterSqlite3.Database
+  db: Database
+  changes: ChangesetBuilder
+  componentData: Record<string, unknown[]> // frontend data sources, by export name
+}
+
+export interface Tool<I = any> {
+  name: string
+  description: string
+  permission: PermissionLevel
+  input: z.ZodType<I>
+  maxCalls?: number // per run; further calls are refused
+  run(input: I, context: ToolContext): Promise<unknown> | unknown
+}
+
+export interface ToolCallRecord {
+  step: number
+  tool: string
+  input: unknown
+  output?: unknown
+  error?: string
+  durationMs: number
+}
+
+const DEFAULT_MAX_CALLS = 10
+
+export function defineTool<I>(tool: Tool<I>): Tool<I> {
+  return tool
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, Tool>()
+
+  register(tool: Tool): this {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool "${tool.name}" is already registered`)
+    }
+    this.tools.set(tool.name, tool)
+    return this
+  }
+
+  get(name: string): Tool | undefined {
+    return this.tools.get(name)
+  }
+
+  list(): Tool[] {
+    return [...this.tools.values()]
+  }
+
+  // Declarations for the model, limited to the tools it is allowed to use
+  declarations(allowed: PermissionLevel[] = PERMISSION_LEVELS): LLMFunctionDeclaration[] {
+    return this.list()
+      .filter(tool => allowed.includes(tool.permission))
+      .map(tool => ({ name: tool.name, description: tool.description, parameters: toFunctionParameters(tool.input) }))
+  }
+
+  // Validate and run one call. Failures are reported back to the model rather than thrown,
+  // so it can correct itself within its step budget.
+  async execute(
+    call: LLMFunctionCall,
+    context: ToolContext,
+    { allowed = PERMISSION_LEVELS, history = [] as ToolCallRecord[], step = 0 } = {}
+  ): Promise<ToolCallRecord> {
+    const startedAt = Date.now()
+    const record = (result: { output?: unknown; error?: string }): ToolCallRecord =>
+      ({ step, tool: call.name, input: call.args, ...result, durationMs: Date.now() - startedAt })
+
+    const tool = this.tools.get(call.name)
+    if (!tool) {
+      return record({ error: `Unknown tool ${call.name}; available: ${this.list().map(t => t.name).join(', ')}` })
+    }
+    if (!allowed.includes(tool.permission)) {
+      return record({ error: `Tool ${tool.name} needs "${tool.permission}" permission, which this run does not have` })
+    }
+    const used = history.filter(entry => entry.tool === tool.name).length
+    if (used >= (tool.maxCalls ?? DEFAULT_MAX_CALLS)) {
+      return record({ error: `Tool ${tool.name} has used its budget of ${tool.maxCalls ?? DEFAULT_MAX_CALLS} call(s)` })
+    }
+
+    const parsed = tool.input.safeParse(call.args ?? {})
+    if (!parsed.success) {
+      return record({ error: `Invalid input: ${parsed.error.issues.map(issue => `${issue.path.join('.') || 'input'}: ${issue.message}`).join('; ')}` })
+    }
+
+    try {
+      return record({ output: await tool.run(parsed.data, context) })
+    } catch (error) {
+      return record({ error: (error as Error).message })
+    }
+  }
+}
+
+// Function declarations accept only a subset of JSON schema (Gemini rejects unknown keywords)
+const DECLARATION_KEYWORDS = ['type', 'description', 'properties', 'required', 'items', 'enum', 'anyOf', 'minimum', 'maximum', 'minItems', 'maxItems']
+
+function toFunctionParameters(schema: z.ZodType): Record<string, unknown> {
+  const simplify = (node: Record<string, unknown>): Record<string, unknown> =>
+    Object.fromEntries(
+      Object.entries(node)
+        .filter(([key]) => DECLARATION_KEYWORDS.includes(key))
+        .map(([key, value]) => {
+          if (key === 'properties') {
+            return [key, Object.fromEntries(Object.entries(value as Record<string, Record<string, unknown>>).map(([name, child]) => [name, simplify(child)]))]
+          }
+          if (key === 'items') return [key, simplify(value as Record<string, unknown>)]
+          if (key === 'anyOf') return [key, (value as Record<string, unknown>[]).map(simplify)]
+          return [key, value]
+        })
+    )
+  return simplify(z.toJSONSchema(schema) as Record<string, unknown>)
+}
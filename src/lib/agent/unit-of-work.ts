@@ -0,0 +1,148 @@
+// All-or-nothing boundary for an agent run: database changes live inside a SQLite savepoint
+// and file writes are held back until commit, so a failure anywhere leaves both untouched.
+
+import fs from 'fs'
+import path from 'path'
+import type BetterSqlite3 from 'better-sqlite3'
+
+let savepointCounter = 0
+
+export class UnitOfWork {
+  private savepoint = `agent_run_${++savepointCounter}`
+  private staged = new Map<string, string>()
+  private originals = new Map<string, string | null>() // files already touched, for restoring
+  private createdDirs = new Set<string>()
+  private removed = new Set<string>()
+  private state: 'idle' | 'open' | 'done' = 'idle'
+
+  constructor(private sqlite: BetterSqlite3.Database) {}
+
+  get isOpen(): boolean {
+    return this.state === 'open'
+  }
+
+  // A savepoint opens a transaction on its own, or nests inside one that is already running
+  begin(): void {
+    if (this.state !== 'idle') throw new Error('Unit of work has already been started')
+    this.sqlite.exec(`SAVEPOINT ${this.savepoint}`)
+    this.state = 'open'
+  }
+
+  // Deferred write: nothing reaches disk until commit()
+  stageFile(filePath: string, content: string): void {
+    this.assertOpen()
+    this.staged.set(filePath, content)
+  }
+
+  // Immediate write for files other code must read mid-run (e.g. migrations); restored on rollback
+  writeFileNow(filePath: string, content: string): void {
+    this.assertOpen()
+    this.remember(filePath)
+    writeFile(filePath, content)
+  }
+
+  // Write a staged file ahead of commit so it can be checked in place; restored on rollback
+  flushFile(filePath: string): void {
+    const content = this.staged.get(filePath)
+    if (content === undefined) throw new Error(`${filePath} is not staged`)
+    this.writeFileNow(filePath, content)
+  }
+
+  // The directories this leaves empty are removed on commit
+  removeFileNow(filePath: string): void {
+    this.assertOpen()
+    this.remember(filePath)
+    this.removed.add(filePath)
+    fs.rmSync(filePath, { force: true })
+  }
+
+  readFile(filePath: string): string | null {
+    if (this.staged.has(filePath)) return this.staged.get(filePath)!
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : null
+  }
+
+  commit(): string[] {
+    this.assertOpen()
+    const written: string[] = []
+    try {
+      for (const [filePath, content] of this.staged) {
+        this.remember(filePath)
+        writeFile(filePath, content)
+        written.push(filePath)
+      }
+      this.sqlite.exec(`RELEASE ${this.savepoint}`)
+    } catch (error) {
+      this.rollback()
+      throw error
+    }
+    this.state = 'done'
+    this.removeEmptyDirs()
+    return written
+  }
+
+  rollback(): void {
+    if (this.state !== 'open') return
+    this.state = 'done'
+    if (this.sqlite.inTransaction) {
+      this.sqlite.exec(`ROLLBACK TO ${this.savepoint}`)
+      this.sqlite.exec(`RELEASE ${this.savepoint}`)
+    }
+    for (const [filePath, original] of this.originals) {
+      if (original === null) fs.rmSync(filePath, { force: true })
+      else writeFile(filePath, original)
+    }
+    // Deepest first, and only if nothing else has landed in them meanwhile
+    for (const dir of [...this.createdDirs].sort((a, b) => b.length - a.length)) {
+      try {
+        fs.rmdirSync(dir)
+      } catch {
+        // not empty: leave it
+      }
+    }
+    this.staged.clear()
+  }
+
+  // Run `work` inside a fresh unit of work, committing on success and rolling back on any error
+  static async run<T>(sqlite: BetterSqlite3.Database, work: (unit: UnitOfWork) => Promise<T>): Promise<T> {
+    const unit = new UnitOfWork(sqlite)
+    unit.begin()
+    try {
+      const result = await work(unit)
+      unit.commit()
+      return result
+    } catch (error) {
+      unit.rollback()
+      throw error
+    }
+  }
+
+  private remember(filePath: string): void {
+    if (this.originals.has(filePath)) return
+    this.originals.set(filePath, fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : null)
+    for (let dir = path.dirname(filePath); !fs.existsSync(dir); dir = path.dirname(dir)) {
+      this.createdDirs.add(dir)
+    }
+  }
+
+  // Walk up from each removed file, stopping at the first directory that still has something
+  // in it and never leaving the project
+  private removeEmptyDirs(): void {
+    const root = path.resolve('.')
+    for (const filePath of this.removed) {
+      for (let dir = path.dirname(path.resolve(filePath)); dir.startsWith(root + path.sep); dir = path.dirname(dir)) {
+        if (!fs.existsSync(dir)) continue
+        if (fs.readdirSync(dir).length) break
+        fs.rmdirSync(dir)
+      }
+    }
+  }
+
+  private assertOpen(): void {
+    if (this.state !== 'open') throw new Error('Unit of work is not open')
+  }
+}
+
+function writeFile(filePath: string, content: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  fs.writeFileSync(filePath, content)
+}
@@ -0,0 +1,125 @@
+// Token accounting for one agent run: what the model calls used, roughly what they cost, and
+// the per-run token budget that stops a run before it calls the model again.
+
+import { readCount } from '../env'
+import type { GenerateRequest, GenerateResponse, LLMProvider } from './providers'
+
+// USD per million tokens
+export interface ModelPrice {
+  prompt: number
+  completion: number
+}
+
+// List prices of the models the agent is usually run with; the longest matching prefix wins,
+// so gemini-2.5-flash-lite-preview-06-17 is priced as gemini-2.5-flash-lite
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-pro': { prompt: 1.25, completion: 10 },
+  'gemini-2.5-flash': { prompt: 0.30, completion: 2.50 },
+  'gemini-2.5-flash-lite': { prompt: 0.10, completion: 0.40 },
+  'gemini-2.0-flash': { prompt: 0.10, completion: 0.40 },
+  'gemini-2.0-flash-lite': { prompt: 0.075, completion: 0.30 },
+  'gemini-1.5-flash': { prompt: 0.075, completion: 0.30 },
+  'gemini-1.5-pro': { prompt: 1.25, completion: 5 },
+  'gpt-4o': { prompt: 2.50, completion: 10 },
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.60 },
+  'gpt-4.1': { prompt: 2, completion: 8 },
+  'gpt-4.1-mini': { prompt: 0.40, completion: 1.60 }
+}
+
+export interface UsageSettings {
+  tokenBudget: number | null // tokens one run may use, null for no limit
+  price: ModelPrice | null // null when the model's prices are unknown
+}
+
+export interface RunUsage {
+  calls: number // model calls answered, including those replayed from the cache
+  cachedCalls: number
+  retries: number // failed attempts that were retried
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  estimatedCostUsd: number | null
+  tokenBudget: number | null
+}
+
+export class TokenBudgetError extends Error {
+  constructor(readonly budget: number, readonly used: number) {
+    super(`Stopped: the run used ${used.toLocaleString('en-US')} tokens of its ${budget.toLocaleString('en-US')} token budget, so the model was not called again and nothing was applied`)
+    this.name = 'TokenBudgetError'
+  }
+}
+
+// AGENT_TOKEN_BUDGET caps a run's tokens (0 for no cap). AGENT_TOKEN_PRICES ("prompt,completion"
+// in USD per million tokens) prices any model.
+export function usageSettings(model: string, env: NodeJS.ProcessEnv = process.env): UsageSettings {
+  return {
+    tokenBudget: readCount(env, 'AGENT_TOKEN_BUDGET', 0) || null,
+    price: env.AGENT_TOKEN_PRICES ? parsePrices(env.AGENT_TOKEN_PRICES) : modelPrice(model)
+  }
+}
+
+export function modelPrice(model: string): ModelPrice | null {
+  const prefix = Object.keys(MODEL_PRICES)
+    .filter(name => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0]
+  return prefix ? MODEL_PRICES[prefix] : null
+}
+
+// Wraps the run's provider: adds up the usage of every answer and refuses to call the model
+// once the budget is used up. The call that crosses the budget still completes.
+export class UsageMeter implements LLMProvider {
+  readonly name: string
+  readonly model: string
+  readonly supportsFunctionCalling: boolean
+  private totals = { calls: 0, cachedCalls: 0, retries: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+
+  constructor(private inner: LLMProvider, private settings: UsageSettings) {
+    this.name = inner.name
+    this.model = inner.model
+    this.supportsFunctionCalling = inner.supportsFunctionCalling
+  }
+
+  get usage(): RunUsage {
+    const { price, tokenBudget } = this.settings
+    const cost = price && (this.totals.promptTokens * price.prompt + this.totals.completionTokens * price.completion) / 1_000_000
+    return { ...this.totals, estimatedCostUsd: cost === null ? null : Number(cost.toFixed(6)), tokenBudget }
+  }
+
+  async generateContent(request: GenerateRequest): Promise<GenerateResponse> {
+    const { tokenBudget } = this.settings
+    if (tokenBudget !== null && this.totals.totalTokens >= tokenBudget) {
+      throw new TokenBudgetError(tokenBudget, this.totals.totalTokens)
+    }
+
+    const response = await this.inner.generateContent(request)
+    this.totals.calls++
+    // A replayed answer cost nothing this time
+    if (response.cached) {
+      this.totals.cachedCalls++
+      return response
+    }
+    this.totals.retries += response.retries ?? 0
+    this.totals.promptTokens += response.usage?.promptTokens ?? 0
+    this.totals.completionTokens += response.usage?.completionTokens ?? 0
+    this.totals.totalTokens += response.usage?.totalTokens ?? 0
+    return response
+  }
+}
+
+// e.g. "3 model call(s), 1 retried attempt, 1,234 tokens (900 prompt + 334 completion), ~$0.000254"
+export function formatUsage(usage: RunUsage): string {
+  const parts = [`${usage.calls} model call(s)${usage.cachedCalls ? ` (${usage.cachedCalls} from the cache)` : ''}`]
+  if (usage.retries) parts.push(`${usage.retries} retried attempt(s)`)
+  const budget = usage.tokenBudget ? ` of ${usage.tokenBudget.toLocaleString('en-US')} budgeted` : ''
+  parts.push(`${usage.totalTokens.toLocaleString('en-US')} tokens${budget} (${usage.promptTokens.toLocaleString('en-US')} prompt + ${usage.completionTokens.toLocaleString('en-US')} completion)`)
+  parts.push(usage.estimatedCostUsd === null ? 'cost unknown for this model' : `~$${usage.estimatedCostUsd}`)
+  return parts.join(', ')
+}
+
+function parsePrices(value: string): ModelPrice {
+  const [prompt, completion] = value.split(',').map(part => Number(part.trim()))
+  if (![prompt, completion].every(price => Number.isFinite(price) && price >= 0)) {
+    throw new Error(`AGENT_TOKEN_PRICES must be "prompt,completion" in USD per million tokens (got "${value}")`)
+  }
+  return { prompt, completion }
+}
@@ -0,0 +1,41 @@
+// The Drizzle schema as drizzle-kit sees it, plus table lookups: migrations are planned from
+// this snapshot, so table creation never drifts from schema.ts.
+
+import type BetterSqlite3 from 'better-sqlite3'
+import { generateSQLiteDrizzleJson, type DrizzleSQLiteSnapshotJSON } from './drizzle-kit'
+import * as schema from './schema'
+
+export type SchemaSnapshot = DrizzleSQLiteSnapshotJSON
+export type SnapshotTable = SchemaSnapshot['tables'][string]
+
+let snapshotPromise: Promise<SchemaSnapshot> | null = null
+
+// Same snapshot drizzle-kit builds for `db:generate` / `db:push`
+export function getSchemaSnapshot(): Promise<SchemaSnapshot> {
+  snapshotPromise ??= generateSQLiteDrizzleJson(schema)
+  return snapshotPromise
+}
+
+export async function getSchemaTableNames(): Promise<string[]> {
+  return Object.keys((await getSchemaSnapshot()).tables)
+}
+
+export function tableExists(sqlite: BetterSqlite3.Database, tableName: string): boolean {
+  return !!sqlite.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`).get(tableName)
+}
+
+// Expand a table list with every table it references through foreign keys, parents first
+export function withForeignKeyDependencies(snapshot: SchemaSnapshot, tableNames: string[]): string[] {
+  const ordered: string[] = []
+  const visit = (name: string) => {
+    if (ordered.includes(name)) return
+    const table = snapshot.tables[name]
+    if (!table) {
+      throw new Error(`Table ${name} is not defined in src/lib/db/schema.ts`)
+    }
+    Object.values(table.foreignKeys).forEach(fk => fk.tableTo !== name && visit(fk.tableTo))
+    ordered.push(name)
+  }
+  tableNames.forEach(visit)
+  return ordered
+}
@@ -0,0 +1,94 @@
+// Compare the live SQLite database against the Drizzle schema.
+
+import type BetterSqlite3 from 'better-sqlite3'
+import { getSchemaSnapshot } from './ddl'
+import { introspectTable, listLiveTables } from './introspect'
+
+export type DriftKind =
+  | 'missing_table'
+  | 'extra_table'
+  | 'missing_column'
+  | 'extra_column'
+  | 'type_mismatch'
+  | 'nullability_mismatch'
+  | 'primary_key_mismatch'
+  | 'missing_foreign_key'
+  | 'extra_foreign_key'
+
+export interface DriftIssue {
+  kind: DriftKind
+  table: string
+  column?: string
+  expected?: string
+  actual?: string
+  message: string
+}
+
+export async function detectDrift(sqlite: BetterSqlite3.Database): Promise<DriftIssue[]> {
+  const snapshot = await getSchemaSnapshot()
+  const issues: DriftIssue[] = []
+
+  const liveTables = listLiveTables(sqlite)
+
+  for (const [tableName, table] of Object.entries(snapshot.tables)) {
+    if (!liveTables.includes(tableName)) {
+      issues.push({ kind: 'missing_table', table: tableName, message: `table ${tableName} is defined in the schema but missing from the database` })
+      continue
+    }
+
+    const live = introspectTable(sqlite, tableName)
+
+    for (const column of Object.values(table.columns)) {
+      const liveColumn = live.columns.find(candidate => candidate.name === column.name)
+      if (!liveColumn) {
+        issues.push({ kind: 'missing_column', table: tableName, column: column.name, message: `${tableName}.${column.name} is missing` })
+        continue
+      }
+      if (liveColumn.type !== column.type.toLowerCase()) {
+        issues.push({
+          kind: 'type_mismatch', table: tableName, column: column.name, expected: column.type, actual: liveColumn.type,
+          message: `${tableName}.${column.name} has type ${liveColumn.type || '(none)'}, expected ${column.type}`
+        })
+      }
+      if (liveColumn.notNull !== column.notNull) {
+        issues.push({
+          kind: 'nullability_mismatch', table: tableName, column: column.name,
+          expected: column.notNull ? 'NOT NULL' : 'NULL', actual: liveColumn.notNull ? 'NOT NULL' : 'NULL',
+          message: `${tableName}.${column.name} is ${liveColumn.notNull ? 'NOT NULL' : 'nullable'}, expected ${column.notNull ? 'NOT NULL' : 'nullable'}`
+        })
+      }
+      if (liveColumn.primaryKey !== column.primaryKey) {
+        issues.push({
+          kind: 'primary_key_mismatch', table: tableName, column: column.name,
+          message: `${tableName}.${column.name} ${column.primaryKey ? 'should' : 'should not'} be the primary key`
+        })
+      }
+    }
+
+    for (const liveColumn of live.columns) {
+      if (!table.columns[liveColumn.name]) {
+        issues.push({ kind: 'extra_column', table: tableName, column: liveColumn.name, message: `${tableName}.${liveColumn.name} is not in the schema` })
+      }
+    }
+
+    const expectedKeys = Object.values(table.foreignKeys).map(fk => foreignKeySignature(fk.columnsFrom, fk.tableTo, fk.columnsTo))
+    const liveKeys = live.foreignKeys.map(fk => foreignKeySignature(fk.columns, fk.table, fk.references))
+
+    expectedKeys.filter(key => !liveKeys.includes(key)).forEach(key =>
+      issues.push({ kind: 'missing_foreign_key', table: tableName, expected: key, message: `${tableName} is missing foreign key ${key}` })
+    )
+    liveKeys.filter(key => !expectedKeys.includes(key)).forEach(key =>
+      issues.push({ kind: 'extra_foreign_key', table: tableName, actual: key, message: `${tableName} has foreign key ${key} that is not in the schema` })
+    )
+  }
+
+  for (const tableName of liveTables.filter(name => !snapshot.tables[name])) {
+    issues.push({ kind: 'extra_table', table: tableName, message: `table ${tableName} exists in the database but not in the schema` })
+  }
+
+  return issues
+}
+
+function foreignKeySignature(columnsFrom: string[], tableTo: string, columnsTo: string[]): string {
+  return `(${columnsFrom.join(', ')}) -> ${tableTo}(${columnsTo.join(', ')})`
+}
@@ -0,0 +1,10 @@
+// drizzle-kit's ESM build (api.mjs) fails under Node's ESM loader with "Dynamic require of fs",
+// which is how Next.js loads it for /api/agent. The CommonJS build works everywhere.
+
+import { createRequire } from 'module'
+import type * as DrizzleKit from 'drizzle-kit/api'
+
+const load = createRequire(import.meta.url)
+
+export const { generateSQLiteDrizzleJson, generateSQLiteMigration } = load('drizzle-kit/api') as typeof DrizzleKit
+export type { DrizzleSQLiteSnapshotJSON } from 'drizzle-kit/api'
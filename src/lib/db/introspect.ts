@@ -0,0 +1,116 @@
+// Read the live schema from SQLite itself (sqlite_master and PRAGMAs), and render it compactly
+// for prompts. Unlike schema.ts this shows what the database actually contains right now.
+
+import type BetterSqlite3 from 'better-sqlite3'
+import { getSchemaSnapshot } from './ddl'
+
+export interface LiveColumn {
+  name: string
+  type: string
+  notNull: boolean
+  primaryKey: boolean
+  defaultValue: string | null
+}
+
+export interface LiveForeignKey {
+  columns: string[]
+  table: string
+  references: string[]
+  onDelete: string
+}
+
+export interface LiveIndex {
+  name: string
+  columns: string[]
+  unique: boolean
+}
+
+export interface LiveTable {
+  name: string
+  columns: LiveColumn[]
+  foreignKeys: LiveForeignKey[]
+  indexes: LiveIndex[]
+  rowCount: number
+}
+
+// SQLite and drizzle bookkeeping, not application data
+export const INTERNAL_TABLES = [/^sqlite_/, /^__drizzle_migrations$/]
+
+export function isInternalTable(name: string): boolean {
+  return INTERNAL_TABLES.some(pattern => pattern.test(name))
+}
+
+export function listLiveTables(sqlite: BetterSqlite3.Database, { includeInternal = false } = {}): string[] {
+  return (sqlite.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name`).all() as { name: string }[])
+    .map(row => row.name)
+    .filter(name => includeInternal || !isInternalTable(name))
+}
+
+export function introspectTable(sqlite: BetterSqlite3.Database, name: string): LiveTable {
+  const quoted = `"${name.replace(/"/g, '""')}"`
+
+  const columns = (sqlite.prepare(`PRAGMA table_info(${quoted})`).all() as {
+    name: string; type: string; notnull: number; pk: number; dflt_value: string | null
+  }[]).map(row => ({
+    name: row.name,
+    type: row.type.toLowerCase(),
+    notNull: !!row.notnull,
+    primaryKey: !!row.pk,
+    defaultValue: row.dflt_value
+  }))
+
+  // Composite keys come back as one row per column, sharing an id
+  const keyRows = sqlite.prepare(`PRAGMA foreign_key_list(${quoted})`).all() as {
+    id: number; table: string; from: string; to: string; on_delete: string
+  }[]
+  const foreignKeys = [...new Set(keyRows.map(row => row.id))].map(id => {
+    const group = keyRows.filter(row => row.id === id)
+    return { columns: group.map(row => row.from), table: group[0].table, references: group.map(row => row.to), onDelete: group[0].on_delete }
+  })
+
+  const indexes = (sqlite.prepare(`PRAGMA index_list(${quoted})`).all() as { name: string; unique: number }[])
+    .map(index => ({
+      name: index.name,
+      unique: !!index.unique,
+      columns: (sqlite.prepare(`PRAGMA index_info("${index.name.replace(/"/g, '""')}")`).all() as { name: string }[]).map(row => row.name)
+    }))
+
+  const { count } = sqlite.prepare(`SELECT COUNT(*) AS count FROM ${quoted}`).get() as { count: number }
+
+  return { name, columns, foreignKeys, indexes, rowCount: count }
+}
+
+export function introspectSchema(sqlite: BetterSqlite3.Database, options: { includeInternal?: boolean } = {}): LiveTable[] {
+  return listLiveTables(sqlite, options).map(name => introspectTable(sqlite, name))
+}
+
+// One line per table, e.g.
+//   - recently_played (6 rows): id text pk, track_id text not null -> tracks.id, played_at integer not null
+// Tables defined in schema.ts that the database lacks are listed too, since the agent can create them.
+export async function renderSchemaForPrompt(sqlite: BetterSqlite3.Database, { exclude = [] as string[] } = {}): Promise<string> {
+  const tables = introspectSchema(sqlite).filter(table => !exclude.includes(table.name))
+  const lines = tables.map(table => {
+    const columns = table.columns.map(column => {
+      const key = table.foreignKeys.find(fk => fk.columns.length === 1 && fk.columns[0] === column.name)
+      return [
+        column.name,
+        column.type || 'any',
+        column.primaryKey ? 'pk' : column.notNull ? 'not null' : '',
+        key ? `-> ${key.table}.${key.references[0]}` : ''
+      ].filter(Boolean).join(' ')
+    })
+    const unique = table.indexes.filter(index => index.unique && !index.name.startsWith('sqlite_autoindex'))
+    const indexNote = unique.length ? `; unique (${unique.map(index => index.columns.join(', ')).join('), (')})` : ''
+    return `- ${table.name} (${table.rowCount} rows): ${columns.join(', ')}${indexNote}`
+  })
+
+  const snapshot = await getSchemaSnapshot()
+  const live = new Set(tables.map(table => table.name))
+  const missing = Object.values(snapshot.tables).filter(table => !live.has(table.name) && !exclude.includes(table.name))
+  if (missing.length) {
+    lines.push('Defined in the app schema but not created yet:')
+    missing.forEach(table => lines.push(`- ${table.name}: ${Object.keys(table.columns).join(', ')}`))
+  }
+
+  return lines.length ? lines.join('\n') : '(the database has no tables yet)'
+}
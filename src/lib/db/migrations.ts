@@ -0,0 +1,255 @@
+// Agent-authored migrations, written in the same layout drizzle-kit uses for `db:generate`
+// so `db:migrate` and the agent share one history.
+
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import type BetterSqlite3 from 'better-sqlite3'
+import { readMigrationFiles } from 'drizzle-orm/migrator'
+import { generateSQLiteDrizzleJson, generateSQLiteMigration } from './drizzle-kit'
+import { getSchemaSnapshot, tableExists, withForeignKeyDependencies, type SchemaSnapshot } from './ddl'
+
+// Matches `out` in drizzle.config.ts
+export const MIGRATIONS_FOLDER = './drizzle'
+const MIGRATIONS_TABLE = '__drizzle_migrations'
+const STATEMENT_BREAKPOINT = '\n--> statement-breakpoint\n'
+const AGENT_TAG = '_agent_'
+
+export interface JournalEntry {
+  idx: number
+  version: string
+  when: number
+  tag: string
+  breakpoints: boolean
+}
+
+export interface Journal {
+  version: string
+  dialect: string
+  entries: JournalEntry[]
+}
+
+export interface AgentMigration {
+  tag: string
+  when: number
+  up: string[]
+  down: string[]
+}
+
+export interface PlannedMigration {
+  name: string
+  tables: string[]
+  up: string[]
+  down: string[]
+  snapshot: SchemaSnapshot
+}
+
+type FileWriter = (filePath: string, content: string) => void
+type FileRemover = (filePath: string) => void
+
+const writeToDisk: FileWriter = (filePath, content) => {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  fs.writeFileSync(filePath, content)
+}
+
+function journalPath(folder: string): string {
+  return path.join(folder, 'meta', '_journal.json')
+}
+
+export function readJournal(folder = MIGRATIONS_FOLDER): Journal {
+  if (!fs.existsSync(journalPath(folder))) {
+    return { version: '7', dialect: 'sqlite', entries: [] }
+  }
+  return JSON.parse(fs.readFileSync(journalPath(folder), 'utf8'))
+}
+
+const removeFromDisk: FileRemover = filePath => fs.rmSync(filePath, { force: true })
+
+function writeJournal(journal: Journal, folder: string, write: FileWriter = writeToDisk): void {
+  write(journalPath(folder), JSON.stringify(journal, null, 2))
+}
+
+function snapshotPath(entry: Pick<JournalEntry, 'idx'>, folder: string): string {
+  return path.join(folder, 'meta', `${String(entry.idx).padStart(4, '0')}_snapshot.json`)
+}
+
+// Schema state after the latest migration, or an empty schema when there is no history yet
+export async function readLatestSnapshot(folder = MIGRATIONS_FOLDER): Promise<SchemaSnapshot> {
+  const last = readJournal(folder).entries.at(-1)
+  if (last && fs.existsSync(snapshotPath(last, folder))) {
+    return JSON.parse(fs.readFileSync(snapshotPath(last, folder), 'utf8'))
+  }
+  return generateSQLiteDrizzleJson({})
+}
+
+// Logs created before the run log became a project migration carry this agent tag
+const LEGACY_RUN_LOG_TAG = '_agent_create_agent_run_log'
+
+export function isAgentMigration(entry: JournalEntry): boolean {
+  return entry.tag.includes(AGENT_TAG) && !entry.tag.endsWith(LEGACY_RUN_LOG_TAG)
+}
+
+// Work out the migration creating the given schema tables (plus any FK parents they need),
+// without touching disk. Tables that already exist in the database are adopted into the
+// snapshot without DDL. Returns null when there is nothing to create.
+export async function planTableMigration(
+  sqlite: BetterSqlite3.Database,
+  tableNames: string[],
+  name: string,
+  folder = MIGRATIONS_FOLDER
+): Promise<PlannedMigration | null> {
+  const schemaSnapshot = await getSchemaSnapshot()
+  const previous = await readLatestSnapshot(folder)
+  const untracked = withForeignKeyDependencies(schemaSnapshot, tableNames).filter(table => !previous.tables[table])
+  const toCreate = untracked.filter(table => !tableExists(sqlite, table))
+  if (!toCreate.length) return null
+
+  const withTables = (base: SchemaSnapshot, tables: string[]): SchemaSnapshot => ({
+    ...base,
+    tables: { ...base.tables, ...Object.fromEntries(tables.map(table => [table, schemaSnapshot.tables[table]])) }
+  })
+  const adopted = withTables(previous, untracked.filter(table => !toCreate.includes(table)))
+  const next: SchemaSnapshot = { ...withTables(adopted, toCreate), id: crypto.randomUUID(), prevId: previous.id }
+
+  const up = await generateSQLiteMigration(adopted, next)
+
+  // Drop children before parents so foreign keys never block the rollback
+  const down: string[] = []
+  let state = next
+  for (const table of [...toCreate].reverse()) {
+    const without = { ...state, tables: Object.fromEntries(Object.entries(state.tables).filter(([key]) => key !== table)) }
+    down.push(...await generateSQLiteMigration(state, without))
+    state = without
+  }
+
+  return { name, tables: toCreate, up, down, snapshot: next }
+}
+
+export async function createTableMigration(
+  sqlite: BetterSqlite3.Database,
+  tableNames: string[],
+  name: string,
+  folder = MIGRATIONS_FOLDER,
+  write: FileWriter = writeToDisk
+): Promise<AgentMigration | null> {
+  const planned = await planTableMigration(sqlite, tableNames, name, folder)
+  return planned && writeMigration(planned, folder, write)
+}
+
+// `write` lets callers route the files through their own bookkeeping (e.g. a unit of work).
+// agent: false tags the migration as the project's own, which the agent never rolls back.
+export function writeMigration(
+  { name, up, down, snapshot, agent = true }: { name: string; up: string[]; down: string[]; snapshot: SchemaSnapshot; agent?: boolean },
+  folder = MIGRATIONS_FOLDER,
+  write: FileWriter = writeToDisk
+): AgentMigration {
+  const journal = readJournal(folder)
+  const idx = journal.entries.length
+  // Journal timestamps must increase or the migrator will skip the entry
+  const when = Math.max(Date.now(), (journal.entries.at(-1)?.when ?? 0) + 1)
+  const entry: JournalEntry = {
+    idx,
+    version: '6',
+    when,
+    tag: migrationTag(idx, name, agent),
+    breakpoints: true
+  }
+
+  write(path.join(folder, `${entry.tag}.sql`), up.join(STATEMENT_BREAKPOINT))
+  write(path.join(folder, `${entry.tag}.down.sql`), down.join(STATEMENT_BREAKPOINT))
+  write(snapshotPath(entry, folder), JSON.stringify(snapshot, null, 2))
+  write(journalPath(folder), JSON.stringify({ ...journal, entries: [...journal.entries, entry] }, null, 2))
+
+  return { tag: entry.tag, when, up, down }
+}
+
+// The files writeMigration writes for an entry, the journal included
+export function migrationFiles(entry: Pick<JournalEntry, 'idx' | 'tag'>, folder = MIGRATIONS_FOLDER): string[] {
+  return [
+    path.join(folder, `${entry.tag}.sql`),
+    path.join(folder, `${entry.tag}.down.sql`),
+    snapshotPath(entry, folder),
+    journalPath(folder)
+  ]
+}
+
+// The files a migration named `name` would get if it were written now, `offset` places after
+// the last one in the journal
+export function plannedMigrationFiles(name: string, folder = MIGRATIONS_FOLDER, offset = 0): string[] {
+  const idx = readJournal(folder).entries.length + offset
+  return migrationFiles({ idx, tag: migrationTag(idx, name, true) }, folder)
+}
+
+function migrationTag(idx: number, name: string, agent: boolean): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '')
+  return `${String(idx).padStart(4, '0')}${agent ? AGENT_TAG : '_'}${slug}`
+}
+
+// Same bookkeeping as drizzle's migrator, but through better-sqlite3 transactions so it nests
+// inside an outer transaction as a savepoint. Returns the tags that were applied.
+export function applyMigrations(sqlite: BetterSqlite3.Database, folder = MIGRATIONS_FOLDER): string[] {
+  const journal = readJournal(folder)
+  if (!journal.entries.length) return []
+
+  sqlite.exec(`CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (id SERIAL PRIMARY KEY, hash text NOT NULL, created_at numeric)`)
+  const last = sqlite
+    .prepare(`SELECT created_at FROM ${MIGRATIONS_TABLE} ORDER BY created_at DESC LIMIT 1`)
+    .get() as { created_at: number } | undefined
+
+  const migrations = readMigrationFiles({ migrationsFolder: folder })
+  const pending = migrations
+    .map((migration, index) => ({ migration, tag: journal.entries[index].tag }))
+    .filter(({ migration }) => !last || Number(last.created_at) < migration.folderMillis)
+
+  sqlite.transaction(() => {
+    for (const { migration } of pending) {
+      migration.sql.filter(statement => statement.trim()).forEach(statement => sqlite.exec(statement))
+      sqlite.prepare(`INSERT INTO ${MIGRATIONS_TABLE} ("hash", "created_at") VALUES (?, ?)`).run(migration.hash, migration.folderMillis)
+    }
+  })()
+
+  return pending.map(({ tag }) => tag)
+}
+
+export function readDownMigration(tag: string, folder = MIGRATIONS_FOLDER): string[] {
+  const downPath = path.join(folder, `${tag}.down.sql`)
+  if (!fs.existsSync(downPath)) {
+    throw new Error(`No down migration found at ${downPath}`)
+  }
+  return fs.readFileSync(downPath, 'utf8').split('--> statement-breakpoint').filter(statement => statement.trim())
+}
+
+// Revert the newest migration, provided the agent wrote it. Returns the reverted tag.
+// Like writeMigration, `files` lets a unit of work make the file changes so it can undo them.
+export function rollbackLastAgentMigration(
+  sqlite: BetterSqlite3.Database,
+  folder = MIGRATIONS_FOLDER,
+  files: { write: FileWriter; remove: FileRemover } = { write: writeToDisk, remove: removeFromDisk }
+): string {
+  const journal = readJournal(folder)
+  const last = journal.entries.at(-1)
+
+  if (!last) {
+    throw new Error('There are no migrations to roll back')
+  }
+  if (!isAgentMigration(last)) {
+    throw new Error(`The latest migration (${last.tag}) was not created by the agent; roll it back manually`)
+  }
+
+  const down = readDownMigration(last.tag, folder)
+
+  sqlite.transaction(() => {
+    down.forEach(statement => sqlite.exec(statement))
+    const hasTable = sqlite.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`).get(MIGRATIONS_TABLE)
+    if (hasTable) {
+      sqlite.prepare(`DELETE FROM ${MIGRATIONS_TABLE} WHERE created_at = ?`).run(last.when)
+    }
+  })()
+
+  files.remove(path.join(folder, `${last.tag}.sql`))
+  files.remove(path.join(folder, `${last.tag}.down.sql`))
+  files.remove(snapshotPath(last, folder))
+  writeJournal({ ...journal, entries: journal.entries.slice(0, -1) }, folder, files.write)
+
+  return last.tag
+}
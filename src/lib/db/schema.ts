@@ -8,14 +8,14 @@ export const tracks = sqliteTable('tracks', {
   album: text('album').notNull(),
   albumArt: text('album_art').notNull(),
   duration: integer('duration').notNull(), // in seconds
-  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(new Date()),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 })
 
 // Recently played tracks
 export const recentlyPlayed = sqliteTable('recently_played', {
   id: text('id').primaryKey(),
   trackId: text('track_id').notNull().references(() => tracks.id),
-  playedAt: integer('played_at', { mode: 'timestamp' }).notNull().default(new Date()),
+  playedAt: integer('played_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 })
 
 // Made for you playlists
@@ -24,7 +24,7 @@ export const madeForYouPlaylists = sqliteTable('made_for_you_playlists', {
   title: text('title').notNull(),
   description: text('description').notNull(), // artist field repurposed as description
   image: text('image').notNull(),
-  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(new Date()),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 })
 
 // Popular albums
@@ -34,7 +34,7 @@ export const popularAlbums = sqliteTable('popular_albums', {
   artist: text('artist').notNull(),
   image: text('image').notNull(),
   duration: integer('duration').notNull(), // total album duration
-  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(new Date()),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 })
 
 // Playlist tracks relationship (for made for you playlists)
@@ -53,9 +53,39 @@ export const albumTracks = sqliteTable('album_tracks', {
   trackNumber: integer('track_number').notNull(),
 })
 
+// Audit log of database agent runs (written by the agent, browsed with `agent history`)
+export const agentRuns = sqliteTable('agent_runs', {
+  id: text('id').primaryKey(),
+  query: text('query').notNull(),
+  provider: text('provider').notNull(),
+  model: text('model').notNull(),
+  prompt: text('prompt'), // raw analysis prompt sent to the model
+  response: text('response'), // raw model response the plan was parsed from
+  plan: text('plan', { mode: 'json' }),
+  outcome: text('outcome').notNull(), // applied | planned | undone | failed
+  error: text('error'),
+  statements: text('statements', { mode: 'json' }).notNull(), // SQL executed, in order
+  rowsAffected: integer('rows_affected').notNull(),
+  files: text('files', { mode: 'json' }).notNull(), // [{ path, sha256 }]
+  snapshotId: text('snapshot_id'), // database snapshot taken before the run wrote anything
+  usage: text('usage', { mode: 'json' }), // tokens and estimated cost of the model calls
+  startedAt: integer('started_at', { mode: 'timestamp_ms' }).notNull(),
+  durationMs: integer('duration_ms').notNull(),
+})
+
+// The steps of each run, from the agent's context
+export const agentRunSteps = sqliteTable('agent_run_steps', {
+  id: text('id').primaryKey(),
+  runId: text('run_id').notNull().references(() => agentRuns.id),
+  position: integer('position').notNull(),
+  description: text('description').notNull(),
+})
+
 // Export types: All 5 main tables are defined here:
 export type Track = typeof tracks.$inferSelect
 export type NewTrack = typeof tracks.$inferInsert
 export type RecentlyPlayed = typeof recentlyPlayed.$inferSelect
 export type MadeForYouPlaylist = typeof madeForYouPlaylists.$inferSelect
-export type PopularAlbum = typeof popularAlbums.$inferSelect 
\ No newline at end of file
+export type PopularAlbum = typeof popularAlbums.$inferSelect 
+export type AgentRun = typeof agentRuns.$inferSelect
+export type AgentRunStep = typeof agentRunSteps.$inferSelect
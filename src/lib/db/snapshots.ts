@@ -0,0 +1,183 @@
+// Online backups of sqlite.db, taken before the agent writes so a bad run can be reverted.
+// Each snapshot is a directory holding the database, a copy of the migrations folder (so the
+// drizzle journal matches the restored schema) and a snapshot.json manifest.
+
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import Database from 'better-sqlite3'
+import type BetterSqlite3 from 'better-sqlite3'
+import { readCount } from '../env'
+import { listLiveTables } from './introspect'
+import { MIGRATIONS_FOLDER } from './migrations'
+
+export const DEFAULT_SNAPSHOT_DIR = 'backups'
+export const DEFAULT_SNAPSHOT_KEEP = 20
+const MANIFEST_FILE = 'snapshot.json'
+const DATABASE_FILE = 'sqlite.db'
+const MIGRATIONS_COPY = 'drizzle'
+
+export interface SnapshotSettings {
+  enabled: boolean // whether writers take snapshots at all; restores always do
+  dir: string
+  keep: number // newest snapshots kept when pruning, 0 for no limit
+  maxAgeDays: number // snapshots older than this are pruned, 0 for no limit
+}
+
+export interface Snapshot {
+  id: string
+  reason: string
+  createdAt: string
+  bytes: number
+  migrations: boolean // whether there was a migrations folder to copy
+}
+
+export interface RestoreResult {
+  snapshot: Snapshot
+  previous: Snapshot // the state just before the restore, so the restore can be undone too
+}
+
+// AGENT_SNAPSHOTS=off turns snapshots off; AGENT_SNAPSHOT_DIR, _KEEP and _MAX_AGE_DAYS set where
+// they go and how long they are kept
+export function snapshotSettings(env: NodeJS.ProcessEnv = process.env): SnapshotSettings {
+  return {
+    enabled: env.AGENT_SNAPSHOTS !== 'off',
+    dir: env.AGENT_SNAPSHOT_DIR || DEFAULT_SNAPSHOT_DIR,
+    keep: readCount(env, 'AGENT_SNAPSHOT_KEEP', DEFAULT_SNAPSHOT_KEEP),
+    maxAgeDays: readCount(env, 'AGENT_SNAPSHOT_MAX_AGE_DAYS', 0)
+  }
+}
+
+export function snapshotDatabasePath(snapshot: Snapshot, dir = DEFAULT_SNAPSHOT_DIR): string {
+  return path.join(dir, snapshot.id, DATABASE_FILE)
+}
+
+// What writers call before touching the database; null when snapshots are turned off
+export async function snapshotBeforeWrite(
+  sqlite: BetterSqlite3.Database,
+  reason: string,
+  settings: SnapshotSettings = snapshotSettings()
+): Promise<Snapshot | null> {
+  return settings.enabled ? takeSnapshot(sqlite, reason, settings) : null
+}
+
+// SQLite's online backup gives a consistent copy even while other connections use the
+// database. Snapshots beyond the retention settings are pruned afterwards.
+export async function takeSnapshot(
+  sqlite: BetterSqlite3.Database,
+  reason: string,
+  settings: SnapshotSettings = snapshotSettings(),
+  { prune = true } = {}
+): Promise<Snapshot> {
+  const createdAt = new Date()
+  const stamp = createdAt.toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15)
+  const id = `${stamp}-${crypto.randomBytes(2).toString('hex')}`
+  const dir = path.join(settings.dir, id)
+
+  fs.mkdirSync(dir, { recursive: true })
+  try {
+    await sqlite.backup(path.join(dir, DATABASE_FILE))
+    const migrations = fs.existsSync(MIGRATIONS_FOLDER)
+    if (migrations) {
+      fs.cpSync(MIGRATIONS_FOLDER, path.join(dir, MIGRATIONS_COPY), { recursive: true })
+    }
+
+    const snapshot: Snapshot = {
+      id,
+      reason,
+      createdAt: createdAt.toISOString(),
+      bytes: fs.statSync(path.join(dir, DATABASE_FILE)).size,
+      migrations
+    }
+    // Written last: a directory without a manifest is an unfinished snapshot and never listed
+    fs.writeFileSync(path.join(dir, MANIFEST_FILE), JSON.stringify(snapshot, null, 2))
+    if (prune) pruneSnapshots(settings)
+    return snapshot
+  } catch (error) {
+    fs.rmSync(dir, { recursive: true, force: true })
+    throw error
+  }
+}
+
+// Newest first
+export function listSnapshots(dir = DEFAULT_SNAPSHOT_DIR): Snapshot[] {
+  if (!fs.existsSync(dir)) return []
+  return fs.readdirSync(dir)
+    .filter(entry => fs.existsSync(path.join(dir, entry, MANIFEST_FILE)))
+    .map(entry => JSON.parse(fs.readFileSync(path.join(dir, entry, MANIFEST_FILE), 'utf8')) as Snapshot)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+// Accepts a full id or a unique prefix of one, as printed by `agent snapshots list`
+export function findSnapshot(idOrPrefix: string, dir = DEFAULT_SNAPSHOT_DIR): Snapshot | null {
+  const matches = listSnapshots(dir).filter(snapshot => snapshot.id.startsWith(idOrPrefix))
+  if (matches.length > 1) {
+    throw new Error(`Snapshot id ${idOrPrefix} is ambiguous; use more characters`)
+  }
+  return matches[0] ?? null
+}
+
+// What restoring a snapshot replaces: the tables in the database now or in the snapshot, and
+// the migration files on either side, as paths under the migrations folder
+export function restoreTargets(
+  sqlite: BetterSqlite3.Database,
+  snapshot: Snapshot,
+  dir = DEFAULT_SNAPSHOT_DIR
+): { tables: string[]; files: string[] } {
+  const source = new Database(snapshotDatabasePath(snapshot, dir), { readonly: true, fileMustExist: true })
+  let tables: string[]
+  try {
+    tables = [...new Set([...listLiveTables(sqlite), ...listLiveTables(source)])]
+  } finally {
+    source.close()
+  }
+
+  const listFiles = (folder: string) => fs.existsSync(folder)
+    ? (fs.readdirSync(folder, { recursive: true }) as string[]).filter(file => fs.statSync(path.join(folder, file)).isFile())
+    : []
+  const copy = snapshot.migrations ? listFiles(path.join(dir, snapshot.id, MIGRATIONS_COPY)) : []
+  const files = [...new Set([...listFiles(MIGRATIONS_FOLDER), ...copy])].map(file => path.join(MIGRATIONS_FOLDER, file))
+  return { tables, files }
+}
+
+// Copies the snapshot back over the live database (through the backup API, so open
+// connections see the restored data) and puts its migrations folder back in place
+export async function restoreSnapshot(
+  sqlite: BetterSqlite3.Database,
+  idOrPrefix: string,
+  settings: SnapshotSettings = snapshotSettings()
+): Promise<RestoreResult> {
+  const snapshot = findSnapshot(idOrPrefix, settings.dir)
+  if (!snapshot) {
+    throw new Error(`No snapshot ${idOrPrefix} in ${settings.dir}/ (see agent snapshots list)`)
+  }
+
+  // Not pruned: with a count limit that could remove the very snapshot being restored
+  const previous = await takeSnapshot(sqlite, `Before restoring ${snapshot.id}`, settings, { prune: false })
+
+  const source = new Database(snapshotDatabasePath(snapshot, settings.dir), { readonly: true, fileMustExist: true })
+  try {
+    await source.backup(sqlite.name)
+  } finally {
+    source.close()
+  }
+
+  fs.rmSync(MIGRATIONS_FOLDER, { recursive: true, force: true })
+  if (snapshot.migrations) {
+    fs.cpSync(path.join(settings.dir, snapshot.id, MIGRATIONS_COPY), MIGRATIONS_FOLDER, { recursive: true })
+  }
+  return { snapshot, previous }
+}
+
+// Removes snapshots past the `keep` newest or older than `maxAgeDays`; returns what was removed
+export function pruneSnapshots(
+  { dir, keep, maxAgeDays }: Pick<SnapshotSettings, 'dir' | 'keep' | 'maxAgeDays'>,
+  now = new Date()
+): Snapshot[] {
+  const cutoff = now.getTime() - maxAgeDays * 24 * 60 * 60 * 1000
+  const removed = listSnapshots(dir).filter((snapshot, index) =>
+    (keep > 0 && index >= keep) || (maxAgeDays > 0 && Date.parse(snapshot.createdAt) < cutoff)
+  )
+  removed.forEach(snapshot => fs.rmSync(path.join(dir, snapshot.id), { recursive: true, force: true }))
+  return removed
+}
@@ -0,0 +1,57 @@
+// Look up Drizzle tables by their SQL name, for code that only knows table names at runtime.
+
+import { is } from 'drizzle-orm'
+import { SQLiteTable, getTableConfig, type SQLiteColumn } from 'drizzle-orm/sqlite-core'
+import * as schema from './schema'
+
+export const schemaTables: Record<string, SQLiteTable> = Object.fromEntries(
+  (Object.values(schema) as unknown[])
+    .filter((value): value is SQLiteTable => is(value, SQLiteTable))
+    .map(table => [getTableConfig(table).name, table])
+)
+
+export function getSchemaTable(tableName: string): SQLiteTable {
+  const table = schemaTables[tableName]
+  if (!table) {
+    throw new Error(`Table ${tableName} is not defined in src/lib/db/schema.ts`)
+  }
+  return table
+}
+
+// Name the table is exported under in schema.ts, e.g. popular_albums -> popularAlbums
+export function getSchemaExportName(tableName: string): string {
+  const table = getSchemaTable(tableName)
+  const entry = Object.entries(schema).find(([, value]) => value === table)
+  if (!entry) {
+    throw new Error(`Table ${tableName} is not exported from src/lib/db/schema.ts`)
+  }
+  return entry[0]
+}
+
+// Drizzle property name -> column, e.g. albumArt -> album_art
+export function getTableColumns(tableName: string): Record<string, SQLiteColumn> {
+  const table = getSchemaTable(tableName) as unknown as Record<string, SQLiteColumn>
+  return Object.fromEntries(
+    getTableConfig(getSchemaTable(tableName)).columns.map(column => {
+      const key = Object.keys(table).find(property => table[property] === column) ?? column.name
+      return [key, column]
+    })
+  )
+}
+
+export function isTimestampColumn(column: SQLiteColumn): boolean {
+  return column.columnType === 'SQLiteTimestamp'
+}
+
+// Rows that went through JSON carry timestamps as strings; turn them back into Dates
+export function reviveRow(tableName: string, row: Record<string, unknown>): Record<string, unknown> {
+  const columns = getTableColumns(tableName)
+  return Object.fromEntries(
+    Object.entries(row).map(([key, value]) => [
+      key,
+      columns[key] && isTimestampColumn(columns[key]) && (typeof value === 'string' || typeof value === 'number')
+        ? new Date(value)
+        : value
+    ])
+  )
+}
@@ -0,0 +1,12 @@
+// Settings read from environment variables, shared by the agent and the database helpers
+
+// A whole number of 0 or more, or `fallback` when the variable is unset or empty
+export function readCount(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+  const value = env[name]
+  if (value === undefined || value === '') return fallback
+  const count = Number(value)
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`${name} must be a whole number of 0 or more (got "${value}")`)
+  }
+  return count
+}
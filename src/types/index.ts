@@ -13,4 +13,8 @@ export interface PlaylistItem {
   subtitle: string
   image?: string
   duration?: number
-} 
\ No newline at end of file
+} 
+// Props every generated home-view shelf accepts (see src/components/generated)
+export interface ShelfSectionProps {
+  onPlayTrack?: (track: Track) => void
+}